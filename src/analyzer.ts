@@ -1,7 +1,27 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { getCachedContent } from './scanner';
+import { ComponentInfo, getCachedContent } from './scanner';
+import { FileSetOptions, findProjectFiles, isIncludedFile } from './fileSet';
+import { getRootFolderFor, ProjectHost } from './host';
+import { ModuleResolver, resolveModuleFile } from './resolver';
+import {
+    ComponentSymbol,
+    ImportKind,
+    ParsedImport,
+    ReExportBinding,
+    StoryMeta
+} from './parser';
+import { FileIndex } from './fileIndex';
+import { extractImportsContent, ImportsTaskResult } from './parseWorker';
+import { MIN_FILES_FOR_WORKERS, ParserPool } from './workerPool';
+import { FrameworkConventions } from './frameworks';
+import {
+    categorizeImporter,
+    DEFAULT_TEST_PATTERNS,
+    getUsageStatusFromCategories,
+    ImporterCategory,
+    isStoryFile,
+    UsageStatus
+} from './importers';
 
 /**
  * Information about component imports
@@ -20,11 +40,59 @@ export interface DependencyGraph {
 }
 
 /**
- * Options for dependency analysis
+ * Options for dependency analysis.
+ * Only files in the include/exclude file set count as importers,
+ * `entryFiles` are project-relative roots used by the reachability mode
+ * and `testPatterns` are globs identifying test importers.
+ * Imports recorded in `fileIndex` are reused for unchanged files and
+ * large projects are parsed in `parserPool` workers.
  */
-export interface AnalyzeOptions {
-    excludePatterns?: string[];
-    includePatterns?: string[];
+export interface AnalyzeOptions extends FileSetOptions {
+    entryFiles?: string[];
+    testPatterns?: string[];
+    fileIndex?: FileIndex;
+    parserPool?: ParserPool;
+}
+
+/**
+ * Default roots for reachability analysis, relative to the project root
+ */
+export const DEFAULT_ENTRY_FILES = [
+    'src/index.tsx', 'src/index.ts', 'src/index.jsx', 'src/index.js',
+    'src/main.tsx', 'src/main.ts', 'src/main.jsx', 'src/main.js',
+    'index.tsx', 'index.ts', 'index.jsx', 'index.js'
+];
+
+/**
+ * Result of walking the import graph from entry files.
+ * `islands` groups unreachable components that import each other.
+ */
+export interface ReachabilityResult {
+    entryFiles: string[];
+    unreachable: string[];
+    islands: string[][];
+}
+
+/**
+ * A component declaration that no importer pulls in and that its own
+ * file never references
+ */
+export interface UnusedSymbolInfo {
+    filePath: string;
+    symbol: ComponentSymbol;
+}
+
+/**
+ * An import from a project file that resolves outside the project root,
+ * handed to the analyzer of the folder it points into. `category` is the
+ * importer's category in its own folder.
+ */
+export interface ExternalImport {
+    sourceFile: string;
+    targetPath: string;
+    kind: ImportKind;
+    bindings: string[];
+    category: ImporterCategory;
 }
 
 /**
@@ -32,8 +100,20 @@ export interface AnalyzeOptions {
  */
 interface FileImport {
     importPath: string;
+    kind: ImportKind;
     isDynamic: boolean;
+    isTypeOnly: boolean;
     sourceFile: string;
+    bindings: string[];
+    reExports?: ReExportBinding[];
+}
+
+/**
+ * A re-export edge: names used from `from` are forwarded to `target`
+ */
+interface ReExportEdge {
+    target: string;
+    binding: ReExportBinding;
 }
 
 /**
@@ -42,12 +122,30 @@ interface FileImport {
  */
 export class DependencyAnalyzer {
     private projectRoot: string;
+    private host: ProjectHost;
     private dependencyGraph: DependencyGraph = {};
     private fileImports: Map<string, FileImport[]> = new Map();
+    private storyMeta: Map<string, StoryMeta> = new Map();
+    private resolvedImports: Map<string, string> = new Map();
     private allProjectFiles: string[] = [];
-
-    constructor(projectRoot: string) {
+    private options: AnalyzeOptions = {};
+    private resolver: ModuleResolver;
+    private conventions: FrameworkConventions;
+    private symbolUsage: Map<string, Set<string>> = new Map();
+    private fileGraph: Map<string, Set<string>> = new Map();
+    private fileImporters: Map<string, string[]> | undefined;
+    private storyTitles: Map<string, string[]> = new Map();
+    private storyComponents: Map<string, string[]> = new Map();
+    private mockReferences: Map<string, string[]> = new Map();
+    private externalImports: ExternalImport[] = [];
+    private externalCategories: Map<string, ImporterCategory> = new Map();
+    private testPatterns: string[] = DEFAULT_TEST_PATTERNS;
+
+    constructor(projectRoot: string, host: ProjectHost) {
         this.projectRoot = projectRoot;
+        this.host = host;
+        this.resolver = new ModuleResolver(projectRoot);
+        this.conventions = new FrameworkConventions(projectRoot);
     }
 
     /**
@@ -56,64 +154,258 @@ export class DependencyAnalyzer {
      */
     async analyzeImports(
         componentPaths: string[],
-        projectRoot: string
+        projectRoot: string,
+        options?: AnalyzeOptions
     ): Promise<DependencyGraph> {
         this.projectRoot = projectRoot;
+        this.options = options || {};
+        this.testPatterns = options?.testPatterns || DEFAULT_TEST_PATTERNS;
         this.dependencyGraph = {};
         this.fileImports = new Map();
+        this.storyMeta = new Map();
+        this.resolvedImports = new Map();
+        this.resolver = new ModuleResolver(projectRoot);
+        this.conventions = new FrameworkConventions(projectRoot);
 
         try {
             // Get all project files (single call)
-            this.allProjectFiles = await this.getAllProjectFiles();
+            this.allProjectFiles = await this.getAllProjectFiles(options);
 
             // Extract imports from all files in parallel batches
             await this.extractAllImportsParallel();
 
-            // Build dependency graph for each component
-            const normalizedComponentPaths = new Map<string, string>();
-            for (const componentPath of componentPaths) {
-                normalizedComponentPaths.set(
-                    this.normalizePath(componentPath),
-                    componentPath
-                );
+            return this.buildGraph(componentPaths);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.host.showError(`Error analyzing imports: ${errorMessage}`);
+            console.error('Error analyzing imports:', error);
+            return this.dependencyGraph;
+        }
+    }
+
+    /**
+     * Gets the project files the graph was built from
+     */
+    getProjectFiles(): string[] {
+        return this.allProjectFiles;
+    }
+
+    /**
+     * Re-reads changed files, forgets deleted ones and rebuilds the
+     * dependency graph from the per-file imports in memory. Only the
+     * given files are parsed again.
+     */
+    async updateFiles(
+        changedFiles: string[],
+        deletedFiles: string[],
+        componentPaths: string[]
+    ): Promise<DependencyGraph> {
+        const previousFiles = new Set(this.allProjectFiles);
+        const projectFiles = new Set(previousFiles);
+
+        for (const filePath of deletedFiles) {
+            projectFiles.delete(filePath);
+            this.fileImports.delete(filePath);
+            this.storyMeta.delete(filePath);
+            this.options.fileIndex?.delete(filePath);
+        }
+
+        const reindexed: string[] = [];
+        for (const filePath of changedFiles) {
+            const root = getRootFolderFor(this.host, filePath) || this.projectRoot;
+            if (/\.(js|jsx|ts|tsx)$/.test(filePath) && isIncludedFile(filePath, root, this.options)) {
+                projectFiles.add(filePath);
+                reindexed.push(filePath);
+            } else {
+                projectFiles.delete(filePath);
+                this.fileImports.delete(filePath);
+                this.storyMeta.delete(filePath);
             }
+        }
+
+        // Creating or deleting files can change what an import resolves to
+        const filesChanged = deletedFiles.length > 0 ||
+            projectFiles.size !== previousFiles.size ||
+            reindexed.some(filePath => !previousFiles.has(filePath));
+        if (filesChanged) {
+            this.resolvedImports.clear();
+        }
+
+        this.allProjectFiles = [...projectFiles];
+        await Promise.all(reindexed.map(filePath => this.indexFile(filePath)));
+
+        return this.buildGraph(componentPaths);
+    }
+
+    /**
+     * Gets the imports of project files that resolve outside the project
+     * root, e.g. into another workspace folder
+     */
+    getExternalImports(): ExternalImport[] {
+        const root = this.normalizePath(this.projectRoot);
+        const external: ExternalImport[] = [];
+
+        for (const [filePath, imports] of this.fileImports) {
+            for (const importInfo of imports) {
+                const targetPath = this.resolveImportPath(importInfo.importPath, filePath);
+                const relative = path.posix.relative(root, targetPath);
+                if (!relative.startsWith('..') && !path.posix.isAbsolute(relative)) {
+                    continue;
+                }
+
+                external.push({
+                    sourceFile: filePath,
+                    targetPath,
+                    kind: importInfo.kind,
+                    bindings: importInfo.kind === 're-export'
+                        ? (importInfo.reExports || []).map(binding => binding.imported)
+                        : importInfo.bindings,
+                    category: categorizeImporter(filePath, this.projectRoot, this.testPatterns)
+                });
+            }
+        }
+
+        return external;
+    }
+
+    /**
+     * Replaces the imports other folders make into this project and
+     * rebuilds the dependency graph with them
+     */
+    setExternalImports(externalImports: ExternalImport[], componentPaths: string[]): DependencyGraph {
+        this.externalImports = externalImports;
+        return this.buildGraph(componentPaths);
+    }
+
+    /**
+     * Builds the dependency graph, symbol usage, file graph and story
+     * links from the per-file imports in memory and the imports other
+     * folders make into this project
+     */
+    private buildGraph(componentPaths: string[]): DependencyGraph {
+        this.dependencyGraph = {};
+        this.symbolUsage = new Map();
+        this.fileGraph = new Map();
+        this.fileImporters = undefined;
+        this.storyTitles = new Map();
+        this.storyComponents = new Map();
+        this.mockReferences = new Map();
+
+        const componentLookup = new Map<string, string[]>();
+        for (const componentPath of componentPaths) {
+            for (const key of this.getMatchKeys(componentPath)) {
+                const matches = componentLookup.get(key) || [];
+                matches.push(componentPath);
+                componentLookup.set(key, matches);
+            }
+        }
+
+        // Process all file imports once
+        const reExportEdges = new Map<string, ReExportEdge[]>();
+
+        for (const [filePath, imports] of this.fileImports.entries()) {
+            for (const importInfo of imports) {
+                // Type-only imports are erased at compile time, so they don't use the component
+                if (importInfo.isTypeOnly) {
+                    continue;
+                }
+
+                const resolvedPath = this.resolveImportPath(
+                    importInfo.importPath,
+                    filePath
+                );
+
+                // jest.mock('./Foo') references a module without importing it
+                const isMock = importInfo.kind === 'mock';
+                if (!isMock) {
+                    this.recordBindings(filePath, resolvedPath, importInfo, reExportEdges);
+                    this.addFileEdge(filePath, resolvedPath);
+                }
+
+                // Check if this import matches any component
+                const matched = new Set<string>();
+                for (const key of this.getMatchKeys(resolvedPath)) {
+                    (componentLookup.get(key) || []).forEach(componentPath => matched.add(componentPath));
+                }
 
-            // Process all file imports once
-            for (const [filePath, imports] of this.fileImports.entries()) {
-                for (const importInfo of imports) {
-                    const resolvedPath = this.resolveImportPath(
-                        importInfo.importPath,
-                        filePath
-                    );
-
-                    // Check if this import matches any component
-                    for (const [normalizedPath, originalPath] of normalizedComponentPaths) {
-                        if (this.pathsMatch(resolvedPath, normalizedPath)) {
-                            if (!this.dependencyGraph[originalPath]) {
-                                this.dependencyGraph[originalPath] = [];
-                            }
-                            if (!this.dependencyGraph[originalPath].includes(filePath)) {
-                                this.dependencyGraph[originalPath].push(filePath);
-                            }
+                for (const originalPath of matched) {
+                    if (isMock) {
+                        const mocks = this.mockReferences.get(originalPath) || [];
+                        if (!mocks.includes(filePath)) {
+                            mocks.push(filePath);
                         }
+                        this.mockReferences.set(originalPath, mocks);
+                        continue;
+                    }
+                    if (!this.dependencyGraph[originalPath]) {
+                        this.dependencyGraph[originalPath] = [];
+                    }
+                    if (!this.dependencyGraph[originalPath].includes(filePath)) {
+                        this.dependencyGraph[originalPath].push(filePath);
                     }
                 }
             }
+        }
+
+        // Imports from other folders mark components used but never add
+        // edges inside this project's file graph
+        this.externalCategories = new Map();
+        for (const external of this.externalImports) {
+            this.externalCategories.set(external.sourceFile, external.category);
+
+            const matched = new Set<string>();
+            for (const key of this.getMatchKeys(external.targetPath)) {
+                (componentLookup.get(key) || []).forEach(componentPath => matched.add(componentPath));
+            }
+
+            if (external.kind !== 'mock') {
+                this.addUsage(external.targetPath, external.bindings);
+            }
 
-            // Initialize empty arrays for components with no imports
-            for (const componentPath of componentPaths) {
-                if (!this.dependencyGraph[componentPath]) {
-                    this.dependencyGraph[componentPath] = [];
+            for (const originalPath of matched) {
+                if (external.kind === 'mock') {
+                    const mocks = this.mockReferences.get(originalPath) || [];
+                    if (!mocks.includes(external.sourceFile)) {
+                        mocks.push(external.sourceFile);
+                    }
+                    this.mockReferences.set(originalPath, mocks);
+                    continue;
+                }
+                if (!this.dependencyGraph[originalPath]) {
+                    this.dependencyGraph[originalPath] = [];
+                }
+                if (!this.dependencyGraph[originalPath].includes(external.sourceFile)) {
+                    this.dependencyGraph[originalPath].push(external.sourceFile);
                 }
             }
+        }
 
-            return this.dependencyGraph;
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            vscode.window.showErrorMessage(`Error analyzing imports: ${errorMessage}`);
-            console.error('Error analyzing imports:', error);
-            return this.dependencyGraph;
+        this.propagateReExports(reExportEdges);
+        this.linkStories();
+
+        // Initialize empty arrays for components with no imports
+        for (const componentPath of componentPaths) {
+            if (!this.dependencyGraph[componentPath]) {
+                this.dependencyGraph[componentPath] = [];
+            }
         }
+
+        return this.dependencyGraph;
+    }
+
+    /**
+     * Gets the keys under which two paths are considered the same module:
+     * the path, the path without extension and, for index files, the folder
+     */
+    private getMatchKeys(filePath: string): string[] {
+        const normalized = this.normalizePath(filePath);
+        const keys = [normalized, normalized.replace(/\.(tsx?|jsx?|mjs|cjs)$/, '')];
+
+        if (path.basename(normalized, path.extname(normalized)) === 'index') {
+            keys.push(path.dirname(normalized));
+        }
+
+        return keys;
     }
 
     /**
@@ -121,83 +413,126 @@ export class DependencyAnalyzer {
      */
     private async extractAllImportsParallel(): Promise<void> {
         const batchSize = 100;
+        const pool = this.allProjectFiles.length >= MIN_FILES_FOR_WORKERS ? this.options.parserPool : undefined;
 
         for (let i = 0; i < this.allProjectFiles.length; i += batchSize) {
             const batch = this.allProjectFiles.slice(i, i + batchSize);
+            await Promise.all(batch.map(filePath => this.indexFile(filePath, pool)));
+        }
+    }
 
-            await Promise.all(
-                batch.map(async (filePath) => {
-                    const imports = await this.extractImportsFast(filePath);
-                    if (imports.length > 0) {
-                        this.fileImports.set(filePath, imports);
-                    }
-                })
-            );
+    /**
+     * Extracts the imports (and CSF metadata for stories) of one file
+     */
+    private async indexFile(filePath: string, pool?: ParserPool): Promise<void> {
+        const parsed = await this.parseFile(filePath, pool);
+
+        const imports = this.toLocalImports(filePath, parsed.imports);
+        if (imports.length > 0) {
+            this.fileImports.set(filePath, imports);
+        } else {
+            this.fileImports.delete(filePath);
+        }
+
+        if (parsed.storyMeta) {
+            this.storyMeta.set(filePath, parsed.storyMeta);
+        } else {
+            this.storyMeta.delete(filePath);
         }
     }
 
     /**
-     * Fast import extraction using cached content
+     * Parses a file's imports and story metadata, in a worker when a pool
+     * is given, or takes them from the file index when the file has not
+     * changed
      */
-    private async extractImportsFast(filePath: string): Promise<FileImport[]> {
-        const imports: FileImport[] = [];
+    private async parseFile(filePath: string, pool?: ParserPool): Promise<{ imports: ParsedImport[]; storyMeta?: StoryMeta }> {
+        const fileIndex = this.options.fileIndex;
+        const cached = fileIndex?.getValid(filePath);
+        if (cached && cached.imports !== undefined && cached.storyMeta !== undefined) {
+            return { imports: cached.imports, storyMeta: cached.storyMeta || undefined };
+        }
 
-        try {
-            const content = await getCachedContent(filePath);
-            if (!content) return imports;
-
-            // Combined regex for better performance
-            // ES6 static imports
-            const es6Regex = /import\s+(?:(?:\*\s+as\s+\w+)|(?:\{[^}]*\})|(?:\w+)|(?:\w+\s*,\s*\{[^}]*\}))\s+from\s+['"]([^'"]+)['"]/g;
-
-            let match;
-            while ((match = es6Regex.exec(content)) !== null) {
-                const importPath = match[1];
-                if (this.isLocalModule(importPath)) {
-                    imports.push({ importPath, isDynamic: false, sourceFile: filePath });
-                }
+        const stamp = fileIndex?.stamp(filePath);
+        let result: ImportsTaskResult | undefined;
+        if (pool) {
+            try {
+                result = await pool.run({ kind: 'imports', filePath });
+            } catch {
+                // Parse on this thread instead
             }
+        }
 
-            // Dynamic imports
-            const dynamicRegex = /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-            while ((match = dynamicRegex.exec(content)) !== null) {
-                const importPath = match[1];
-                if (this.isLocalModule(importPath)) {
-                    imports.push({ importPath, isDynamic: true, sourceFile: filePath });
+        try {
+            if (!result) {
+                const content = await getCachedContent(filePath);
+                if (!content) {
+                    return { imports: [] };
                 }
+                result = extractImportsContent(filePath, content);
             }
 
-            // CommonJS require
-            const requireRegex = /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
-            while ((match = requireRegex.exec(content)) !== null) {
-                const importPath = match[1];
-                if (this.isLocalModule(importPath)) {
-                    imports.push({ importPath, isDynamic: false, sourceFile: filePath });
-                }
-            }
-        } catch (error) {
+            fileIndex?.record(filePath, stamp, result.hash, { imports: result.imports, storyMeta: result.storyMeta || null });
+            return { imports: result.imports, storyMeta: result.storyMeta };
+        } catch {
             // Silently ignore errors for individual files
+            return { imports: [] };
+        }
+    }
+
+    /**
+     * Keeps the imports that point at project modules
+     */
+    private toLocalImports(filePath: string, parsedImports: ParsedImport[]): FileImport[] {
+        const imports: FileImport[] = [];
+
+        for (const parsed of parsedImports) {
+            if (this.isLocalModule(parsed.specifier, filePath)) {
+                imports.push({
+                    importPath: parsed.specifier,
+                    kind: parsed.kind,
+                    isDynamic: parsed.kind === 'dynamic',
+                    isTypeOnly: parsed.isTypeOnly,
+                    sourceFile: filePath,
+                    bindings: parsed.bindings,
+                    reExports: parsed.reExports
+                });
+            }
         }
 
         return imports;
     }
 
     /**
-     * Check if import is a local module (not external)
+     * Check if import is a local module (relative, absolute, a
+     * tsconfig/jsconfig alias or a workspace package that resolves
+     * to a project file)
      */
-    private isLocalModule(importPath: string): boolean {
-        return importPath.startsWith('.') || importPath.startsWith('/');
+    private isLocalModule(importPath: string, sourceFile: string): boolean {
+        if (importPath.startsWith('.') || importPath.startsWith('/')) {
+            return true;
+        }
+
+        return this.resolver.resolve(importPath, sourceFile) !== undefined;
     }
 
     /**
-     * Finds unused components (components with zero imports)
+     * Finds unused components: components with zero imports from product
+     * code. Components imported only by stories or tests are included
+     * (see getUsageStatus).
+     * Files loaded by framework conventions (routes, layouts...) are never unused.
+     * Entry files are loaded by the bundler, so they are never unused either.
      */
-    findUnused(componentPaths: string[]): string[] {
+    findUnused(componentPaths: string[], entryFiles: string[] = DEFAULT_ENTRY_FILES): string[] {
         const unused: string[] = [];
+        const roots = new Set(this.resolveEntryFiles(entryFiles));
 
         for (const componentPath of componentPaths) {
-            const imports = this.dependencyGraph[componentPath];
-            if (!imports || imports.length === 0) {
+            if (roots.has(this.normalizePath(componentPath))) {
+                continue;
+            }
+
+            if (this.getUsageStatus(componentPath) !== 'used') {
                 unused.push(componentPath);
             }
         }
@@ -206,151 +541,419 @@ export class DependencyAnalyzer {
     }
 
     /**
-     * Gets ImportInfo for a specific component
+     * Gets how a component is used: by product code, only by
+     * Storybook stories, only by tests, or not at all
      */
-    getImportInfo(componentPath: string): ImportInfo {
-        const importedFrom = this.dependencyGraph[componentPath] || [];
+    getUsageStatus(componentPath: string): UsageStatus {
+        if (this.conventions.isImplicitRoot(componentPath)) {
+            return 'used';
+        }
 
-        return {
-            componentPath,
-            importedFrom,
-            importCount: importedFrom.length
-        };
+        const categories: ImporterCategory[] = this.getImporters(componentPath)
+            .map(file => this.categorize(file));
+
+        if (this.getStoryImporters(componentPath).length > 0) {
+            categories.push('story');
+        }
+        if ((this.mockReferences.get(componentPath) || []).length > 0) {
+            categories.push('test');
+        }
+
+        return getUsageStatusFromCategories(categories);
+    }
+
+    /**
+     * Gets an importer's category, as seen from its own folder for
+     * importers in other folders
+     */
+    private categorize(filePath: string): ImporterCategory {
+        return this.externalCategories.get(filePath) ||
+            categorizeImporter(filePath, this.projectRoot, this.testPatterns);
     }
 
     /**
-     * Gets all project files (single optimized call)
+     * Gets test files that import a component or reference it through
+     * `jest.mock()` / `vi.mock()`
      */
-    private async getAllProjectFiles(): Promise<string[]> {
-        const files: string[] = [];
+    getTestImporters(componentPath: string): string[] {
+        const tests = this.getImporters(componentPath).filter(
+            file => this.categorize(file) === 'test'
+        );
+        for (const mockFile of this.mockReferences.get(componentPath) || []) {
+            if (!tests.includes(mockFile)) {
+                tests.push(mockFile);
+            }
+        }
+        return tests;
+    }
 
-        try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
+    /**
+     * Gets story files that import a component or declare it as their
+     * CSF `component`
+     */
+    getStoryImporters(componentPath: string): string[] {
+        const stories = this.getImporters(componentPath).filter(isStoryFile);
+        for (const storyFile of this.storyComponents.get(this.normalizePath(componentPath)) || []) {
+            if (!stories.includes(storyFile)) {
+                stories.push(storyFile);
+            }
+        }
+        return stories;
+    }
 
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                return files;
+    /**
+     * Gets the CSF `title` of every story written for a component
+     */
+    getStoryTitles(componentPath: string): string[] {
+        return this.storyTitles.get(this.normalizePath(componentPath)) || [];
+    }
+
+    /**
+     * Links each story's CSF `component` to the file it is imported from
+     */
+    private linkStories(): void {
+        for (const [storyFile, meta] of this.storyMeta) {
+            if (!meta.componentSpecifier) continue;
+
+            const target = this.resolveImportPath(meta.componentSpecifier, storyFile);
+            const stories = this.storyComponents.get(target) || [];
+            stories.push(storyFile);
+            this.storyComponents.set(target, stories);
+
+            if (meta.title) {
+                const titles = this.storyTitles.get(target) || [];
+                titles.push(meta.title);
+                this.storyTitles.set(target, titles);
             }
+        }
+    }
 
-            for (const workspaceFolder of workspaceFolders) {
-                const pattern = new vscode.RelativePattern(
-                    workspaceFolder,
-                    '**/*.{js,jsx,ts,tsx}'
-                );
+    /**
+     * Finds components that cannot be reached from any entry file by
+     * following imports, so clusters of components that only import each
+     * other are reported together instead of one leaf per scan.
+     * Framework convention files (routes, layouts...) are roots too.
+     */
+    findUnreachable(
+        componentPaths: string[],
+        entryFiles: string[] = DEFAULT_ENTRY_FILES
+    ): ReachabilityResult {
+        const roots = this.resolveEntryFiles(entryFiles);
+        for (const filePath of this.allProjectFiles) {
+            const normalized = this.normalizePath(filePath);
+            if (!roots.includes(normalized) && this.conventions.isImplicitRoot(filePath)) {
+                roots.push(normalized);
+            }
+        }
 
-                const foundFiles = await vscode.workspace.findFiles(
-                    pattern,
-                    '**/node_modules/**',
-                    10000
-                );
+        // Modules product code in other folders imports are roots too
+        for (const external of this.externalImports) {
+            if (external.kind !== 'mock' && external.category === 'product' && !roots.includes(external.targetPath)) {
+                roots.push(external.targetPath);
+            }
+        }
+        const reachable = new Set<string>(roots);
+        const queue = [...roots];
+
+        while (queue.length > 0) {
+            const current = queue.pop()!;
+            for (const target of this.fileGraph.get(current) || []) {
+                if (!reachable.has(target)) {
+                    reachable.add(target);
+                    queue.push(target);
+                }
+            }
+        }
+
+        const unreachable = componentPaths.filter(
+            componentPath => !reachable.has(this.normalizePath(componentPath))
+        );
+
+        return {
+            entryFiles: roots,
+            unreachable,
+            islands: this.groupIslands(unreachable, reachable)
+        };
+    }
 
-                for (const file of foundFiles) {
-                    files.push(file.fsPath);
+    /**
+     * Resolves configured entry files to existing normalized paths
+     */
+    private resolveEntryFiles(entryFiles: string[]): string[] {
+        const roots: string[] = [];
+
+        for (const entry of entryFiles) {
+            const absolute = path.isAbsolute(entry) ? entry : path.resolve(this.projectRoot, entry);
+            const resolved = resolveModuleFile(absolute);
+            if (resolved) {
+                const normalized = this.normalizePath(resolved);
+                if (!roots.includes(normalized)) {
+                    roots.push(normalized);
                 }
             }
-        } catch (error) {
-            console.error('Error getting project files:', error);
         }
 
-        return files;
+        return roots;
     }
 
     /**
-     * Resolves a relative import path to an absolute path
-     * Optimized with fewer fs.existsSync calls
+     * Groups unreachable components into islands: sets of unreachable
+     * files connected by imports in either direction
      */
-    private resolveImportPath(importPath: string, sourceFile: string): string {
-        if (path.isAbsolute(importPath)) {
-            return this.normalizePath(importPath);
+    private groupIslands(unreachable: string[], reachable: Set<string>): string[][] {
+        const adjacency = new Map<string, Set<string>>();
+        const link = (a: string, b: string): void => {
+            if (!adjacency.has(a)) adjacency.set(a, new Set());
+            adjacency.get(a)!.add(b);
+        };
+
+        for (const [source, targets] of this.fileGraph) {
+            if (reachable.has(source)) continue;
+            for (const target of targets) {
+                if (!reachable.has(target)) {
+                    link(source, target);
+                    link(target, source);
+                }
+            }
         }
 
-        const sourceDir = path.dirname(sourceFile);
-        let resolvedPath = path.resolve(sourceDir, importPath);
+        const byNormalized = new Map(unreachable.map(p => [this.normalizePath(p), p]));
+        const visited = new Set<string>();
+        const islands: string[][] = [];
 
-        // Quick check if exact path exists
-        if (fs.existsSync(resolvedPath)) {
-            // Check if it's a directory
-            try {
-                if (fs.statSync(resolvedPath).isDirectory()) {
-                    const indexFiles = ['index.tsx', 'index.ts', 'index.jsx', 'index.js'];
-                    for (const indexFile of indexFiles) {
-                        const indexPath = path.join(resolvedPath, indexFile);
-                        if (fs.existsSync(indexPath)) {
-                            return this.normalizePath(indexPath);
-                        }
+        for (const start of byNormalized.keys()) {
+            if (visited.has(start)) continue;
+
+            const island: string[] = [];
+            const queue = [start];
+            visited.add(start);
+
+            while (queue.length > 0) {
+                const current = queue.pop()!;
+                const componentPath = byNormalized.get(current);
+                if (componentPath) {
+                    island.push(componentPath);
+                }
+                for (const next of adjacency.get(current) || []) {
+                    if (!visited.has(next)) {
+                        visited.add(next);
+                        queue.push(next);
                     }
                 }
-            } catch {
-                // Not a directory
             }
-            return this.normalizePath(resolvedPath);
+
+            islands.push(island.sort((a, b) => a.localeCompare(b)));
         }
 
-        // Try common extensions
-        const extensions = ['.tsx', '.ts', '.jsx', '.js'];
-        for (const ext of extensions) {
-            const testPath = resolvedPath + ext;
-            if (fs.existsSync(testPath)) {
-                return this.normalizePath(testPath);
+        return islands.sort((a, b) => b.length - a.length);
+    }
+
+    /**
+     * Records a file-to-file import edge for reachability
+     */
+    private addFileEdge(sourceFile: string, targetPath: string): void {
+        const source = this.normalizePath(sourceFile);
+        let targets = this.fileGraph.get(source);
+        if (!targets) {
+            targets = new Set();
+            this.fileGraph.set(source, targets);
+        }
+        targets.add(targetPath);
+    }
+
+    /**
+     * Finds component declarations that are neither imported by name
+     * (directly or through barrel re-exports) nor referenced inside their
+     * own file. Files that are not used by product code are skipped since
+     * findUnused already reports them as a whole.
+     */
+    findUnusedSymbols(components: ComponentInfo[]): UnusedSymbolInfo[] {
+        const unused: UnusedSymbolInfo[] = [];
+
+        for (const component of components) {
+            // Frameworks consume every export of a convention file (default, ErrorBoundary...)
+            const isImplicitRoot = this.conventions.isImplicitRoot(component.filePath);
+            if (this.getUsageStatus(component.filePath) !== 'used') {
+                continue;
+            }
+
+            const used = this.getUsedExports(component.filePath);
+            if (used.has('*')) {
+                continue;
+            }
+
+            for (const symbol of component.symbols) {
+                const isImported = symbol.isExported &&
+                    (isImplicitRoot || symbol.exportNames.some(name => used.has(name)));
+                if (!isImported && !symbol.isReferencedLocally) {
+                    unused.push({ filePath: component.filePath, symbol });
+                }
             }
         }
 
-        // Try as directory with index
-        const indexFiles = ['index.tsx', 'index.ts', 'index.jsx', 'index.js'];
-        for (const indexFile of indexFiles) {
-            const indexPath = path.join(resolvedPath, indexFile);
-            if (fs.existsSync(indexPath)) {
-                return this.normalizePath(indexPath);
+        return unused;
+    }
+
+    /**
+     * Gets the export names of a file that importers pull in
+     * (`*` when the whole module is used)
+     */
+    getUsedExports(filePath: string): Set<string> {
+        return new Set(this.symbolUsage.get(this.normalizePath(filePath)) || []);
+    }
+
+    /**
+     * Records the bindings an import pulls from its target, and collects
+     * re-export edges for propagation
+     */
+    private recordBindings(
+        sourceFile: string,
+        targetPath: string,
+        importInfo: FileImport,
+        reExportEdges: Map<string, ReExportEdge[]>
+    ): void {
+        if (importInfo.kind === 're-export') {
+            const source = this.normalizePath(sourceFile);
+            const edges = reExportEdges.get(source) || [];
+            for (const binding of importInfo.reExports || []) {
+                edges.push({ target: targetPath, binding });
             }
+            reExportEdges.set(source, edges);
+            return;
         }
 
-        return this.normalizePath(resolvedPath);
+        this.addUsage(targetPath, importInfo.bindings);
     }
 
     /**
-     * Normalizes a file path for consistent comparison
+     * Adds used export names for a file, returning the names that were new
      */
-    private normalizePath(filePath: string): string {
-        let normalized = path.normalize(filePath);
+    private addUsage(filePath: string, names: string[]): string[] {
+        let used = this.symbolUsage.get(filePath);
+        if (!used) {
+            used = new Set();
+            this.symbolUsage.set(filePath, used);
+        }
 
-        if (!path.isAbsolute(normalized)) {
-            normalized = path.resolve(this.projectRoot, normalized);
+        const added = names.filter(name => !used!.has(name));
+        added.forEach(name => used!.add(name));
+        return added;
+    }
+
+    /**
+     * Forwards used names through barrel files until nothing changes:
+     * if `index.ts` re-exports `Card` from `./Cards` and someone imports
+     * `Card` from the barrel, `Card` becomes used in `Cards`
+     */
+    private propagateReExports(reExportEdges: Map<string, ReExportEdge[]>): void {
+        const queue: Array<[string, string]> = [];
+        for (const [filePath, used] of this.symbolUsage) {
+            used.forEach(name => queue.push([filePath, name]));
         }
 
-        normalized = path.resolve(normalized);
-        return normalized.replace(/\\/g, '/');
+        while (queue.length > 0) {
+            const [filePath, name] = queue.pop()!;
+
+            for (const edge of reExportEdges.get(filePath) || []) {
+                const { imported, exported } = edge.binding;
+                let forwarded: string | undefined;
+
+                if (exported === '*') {
+                    // `export * from` never forwards the default export
+                    forwarded = name === 'default' ? undefined : name;
+                } else if (name === '*' || name === exported) {
+                    forwarded = imported;
+                }
+
+                if (forwarded) {
+                    for (const added of this.addUsage(edge.target, [forwarded])) {
+                        queue.push([edge.target, added]);
+                    }
+                }
+            }
+        }
     }
 
     /**
-     * Checks if two paths match
+     * Checks whether a file is loaded by a framework convention
      */
-    private pathsMatch(path1: string, path2: string): boolean {
-        const normalized1 = this.normalizePath(path1);
-        const normalized2 = this.normalizePath(path2);
+    isImplicitRoot(filePath: string): boolean {
+        return this.conventions.isImplicitRoot(filePath);
+    }
 
-        if (normalized1 === normalized2) {
-            return true;
+    /**
+     * Gets ImportInfo for a specific component
+     */
+    getImportInfo(componentPath: string): ImportInfo {
+        const importedFrom = this.dependencyGraph[componentPath] || [];
+
+        return {
+            componentPath,
+            importedFrom,
+            importCount: importedFrom.length
+        };
+    }
+
+    /**
+     * Gets all project files in the shared file set (single optimized call)
+     */
+    private async getAllProjectFiles(options?: AnalyzeOptions): Promise<string[]> {
+        try {
+            return await findProjectFiles(this.host, options);
+        } catch (error) {
+            console.error('Error getting project files:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Resolves an import specifier to an absolute path.
+     * Relative and absolute paths resolve against the file system,
+     * anything else goes through tsconfig/jsconfig `baseUrl` and `paths`
+     * and then monorepo workspace packages
+     */
+    private resolveImportPath(importPath: string, sourceFile: string): string {
+        const cacheKey = `${path.dirname(sourceFile)}\0${importPath}`;
+        const cached = this.resolvedImports.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
         }
 
-        // Check without extensions
-        const path1NoExt = normalized1.replace(/\.(tsx?|jsx?|mjs|cjs)$/, '');
-        const path2NoExt = normalized2.replace(/\.(tsx?|jsx?|mjs|cjs)$/, '');
+        const resolved = this.resolveImportPathUncached(importPath, sourceFile);
+        this.resolvedImports.set(cacheKey, resolved);
+        return resolved;
+    }
 
-        if (path1NoExt === path2NoExt) {
-            return true;
+    /**
+     * Resolves an import specifier without consulting the cache
+     */
+    private resolveImportPathUncached(importPath: string, sourceFile: string): string {
+        if (!importPath.startsWith('.') && !path.isAbsolute(importPath)) {
+            const aliased = this.resolver.resolve(importPath, sourceFile);
+            if (aliased) {
+                return this.normalizePath(aliased);
+            }
         }
 
-        // Check if one is index file of the other
-        const path1Dir = path.dirname(normalized1);
-        const path2Dir = path.dirname(normalized2);
-        const path1Base = path.basename(normalized1, path.extname(normalized1));
-        const path2Base = path.basename(normalized2, path.extname(normalized2));
+        const resolvedPath = path.isAbsolute(importPath)
+            ? importPath
+            : path.resolve(path.dirname(sourceFile), importPath);
 
-        if ((path1Base === 'index' && path1Dir === path2NoExt) ||
-            (path2Base === 'index' && path2Dir === path1NoExt)) {
-            return true;
+        return this.normalizePath(resolveModuleFile(resolvedPath) || resolvedPath);
+    }
+
+    /**
+     * Normalizes a file path for consistent comparison
+     */
+    private normalizePath(filePath: string): string {
+        let normalized = path.normalize(filePath);
+
+        if (!path.isAbsolute(normalized)) {
+            normalized = path.resolve(this.projectRoot, normalized);
         }
 
-        return false;
+        normalized = path.resolve(normalized);
+        return normalized.replace(/\\/g, '/');
     }
 
     /**
@@ -367,6 +970,24 @@ export class DependencyAnalyzer {
         return this.dependencyGraph[componentPath] || [];
     }
 
+    /**
+     * Gets the project files importing any file, including styles and
+     * other files that are not components
+     */
+    getFileImporters(filePath: string): string[] {
+        if (!this.fileImporters) {
+            this.fileImporters = new Map();
+            for (const [source, targets] of this.fileGraph) {
+                for (const target of targets) {
+                    const importers = this.fileImporters.get(target) || [];
+                    importers.push(source);
+                    this.fileImporters.set(target, importers);
+                }
+            }
+        }
+        return this.fileImporters.get(this.normalizePath(filePath)) || [];
+    }
+
     /**
      * Gets all components imported by a specific file
      */
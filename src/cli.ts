@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import * as fs from 'fs';
+import { NodeHost } from './host';
+import { scanProject, ScanMode, UnusedComponentInfo } from './core';
+import { UnusedSymbolInfo } from './analyzer';
+import { formatFileSize, formatReport, ReportFormat, REPORT_FORMATS } from './report';
+
+/**
+ * Process exit codes
+ */
+export const EXIT_OK = 0;
+export const EXIT_THRESHOLD_EXCEEDED = 1;
+export const EXIT_ERROR = 2;
+
+/**
+ * Parsed command-line arguments for `component-pruner scan`
+ */
+interface CliArguments {
+    command?: string;
+    root: string;
+    include: string[];
+    exclude: string[];
+    testPatterns: string[];
+    entryFiles: string[];
+    mode: ScanMode;
+    maxUnused: number;
+    maxFiles?: number;
+    maxWorkers?: number;
+    format?: ReportFormat;
+    output?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+const USAGE = `Usage: component-pruner scan [options]
+
+Scans a React project for unused components and exits non-zero when
+more than --max-unused are found.
+
+Options:
+  --root <dir>           Project root to scan (default: current directory)
+  --include <glob>       Files to scan, relative to the root (repeatable)
+  --exclude <glob>       Files to skip (repeatable)
+  --test-pattern <glob>  Globs identifying test files (repeatable)
+  --mode <mode>          "importers" (default) or "reachability"
+  --entry <file>         Entry file for reachability mode (repeatable)
+  --max-unused <n>       Allowed number of unused components (default: 0)
+  --max-files <n>        Maximum files collected per root, with a warning
+                         when reached (default: no limit)
+  --max-workers <n>      Maximum parser worker threads, 0 parses on the
+                         main thread (default: 4)
+  --format <format>      Print a json, csv, markdown or sarif report instead
+                         of the summary
+  --output <file>        Write the report to a file instead of stdout
+  --verbose              Print scan progress to stderr
+  -h, --help             Show this help
+
+Exit codes:
+  0  unused components within the threshold
+  1  more unused components than --max-unused
+  2  invalid arguments or scan failure`;
+
+/**
+ * Error raised for invalid command-line usage
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses process arguments
+ */
+function parseArguments(argv: string[]): CliArguments {
+    const args: CliArguments = {
+        root: process.cwd(),
+        include: [],
+        exclude: [],
+        testPatterns: [],
+        entryFiles: [],
+        mode: 'importers',
+        maxUnused: 0,
+        verbose: false,
+        help: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+            ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+            : [arg, undefined];
+
+        const value = (): string => {
+            const next = inlineValue ?? argv[++i];
+            if (next === undefined || (inlineValue === undefined && next.startsWith('--'))) {
+                throw new UsageError(`Missing value for ${flag}`);
+            }
+            return next;
+        };
+
+        switch (flag) {
+            case '-h':
+            case '--help':
+                args.help = true;
+                break;
+            case '--root':
+                args.root = path.resolve(value());
+                break;
+            case '--include':
+                args.include.push(value());
+                break;
+            case '--exclude':
+                args.exclude.push(value());
+                break;
+            case '--test-pattern':
+                args.testPatterns.push(value());
+                break;
+            case '--entry':
+                args.entryFiles.push(value());
+                break;
+            case '--mode': {
+                const mode = value();
+                if (mode !== 'importers' && mode !== 'reachability') {
+                    throw new UsageError(`Unknown mode "${mode}"`);
+                }
+                args.mode = mode;
+                break;
+            }
+            case '--max-unused': {
+                const raw = value();
+                const maxUnused = Number(raw);
+                if (!Number.isInteger(maxUnused) || maxUnused < 0) {
+                    throw new UsageError(`--max-unused expects a non-negative integer, got "${raw}"`);
+                }
+                args.maxUnused = maxUnused;
+                break;
+            }
+            case '--max-files': {
+                const raw = value();
+                const maxFiles = Number(raw);
+                if (!Number.isInteger(maxFiles) || maxFiles < 1) {
+                    throw new UsageError(`--max-files expects a positive integer, got "${raw}"`);
+                }
+                args.maxFiles = maxFiles;
+                break;
+            }
+            case '--max-workers': {
+                const raw = value();
+                const maxWorkers = Number(raw);
+                if (!Number.isInteger(maxWorkers) || maxWorkers < 0) {
+                    throw new UsageError(`--max-workers expects a non-negative integer, got "${raw}"`);
+                }
+                args.maxWorkers = maxWorkers;
+                break;
+            }
+            case '--format': {
+                const format = value();
+                if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+                    throw new UsageError(`Unknown format "${format}", expected one of ${REPORT_FORMATS.join(', ')}`);
+                }
+                args.format = format as ReportFormat;
+                break;
+            }
+            case '--output':
+                args.output = path.resolve(value());
+                break;
+            case '--verbose':
+                args.verbose = true;
+                break;
+            default:
+                if (flag.startsWith('-') || args.command) {
+                    throw new UsageError(`Unknown argument "${arg}"`);
+                }
+                args.command = flag;
+        }
+    }
+
+    return args;
+}
+
+/**
+ * Prints scan results to stdout
+ */
+function printResults(
+    root: string,
+    unusedComponents: UnusedComponentInfo[],
+    unusedSymbols: UnusedSymbolInfo[]
+): void {
+    const out = (line: string): void => {
+        process.stdout.write(`${line}\n`);
+    };
+
+    for (const component of unusedComponents) {
+        const status = component.isSafe === true ? 'safe'
+            : component.isSafe === false ? 'needs review' : 'unknown';
+        const usage = component.usage === 'stories-only' || component.usage === 'tests-only'
+            ? `, ${component.usage}`
+            : '';
+        out(`  ${path.relative(root, component.filePath)}  ${formatFileSize(component.size)}  (${status}${usage})`);
+    }
+
+    if (unusedSymbols.length > 0) {
+        out('');
+        out('Unused exports:');
+        for (const { filePath, symbol } of unusedSymbols) {
+            out(`  ${path.relative(root, filePath)}:${symbol.line + 1}  ${symbol.name}`);
+        }
+    }
+}
+
+/**
+ * Runs the CLI and resolves to the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+    let args: CliArguments;
+    try {
+        args = parseArguments(argv);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`error: ${error.message}\n\n${USAGE}\n`);
+            return EXIT_ERROR;
+        }
+        throw error;
+    }
+
+    if (args.help || !args.command) {
+        process.stdout.write(`${USAGE}\n`);
+        return args.help ? EXIT_OK : EXIT_ERROR;
+    }
+
+    if (args.command !== 'scan') {
+        process.stderr.write(`error: Unknown command "${args.command}"\n\n${USAGE}\n`);
+        return EXIT_ERROR;
+    }
+
+    if (!fs.existsSync(args.root) || !fs.statSync(args.root).isDirectory()) {
+        process.stderr.write(`error: Root folder not found: ${args.root}\n`);
+        return EXIT_ERROR;
+    }
+
+    try {
+        const host = new NodeHost([args.root]);
+        const result = await scanProject(
+            host,
+            args.root,
+            {
+                mode: args.mode,
+                includePatterns: args.include.length > 0 ? args.include : undefined,
+                excludePatterns: args.exclude.length > 0 ? args.exclude : undefined,
+                testPatterns: args.testPatterns.length > 0 ? args.testPatterns : undefined,
+                entryFiles: args.entryFiles.length > 0 ? args.entryFiles : undefined,
+                maxFiles: args.maxFiles,
+                maxWorkers: args.maxWorkers
+            },
+            {
+                report: () => undefined,
+                log: (message) => {
+                    if (args.verbose) {
+                        process.stderr.write(`${message}\n`);
+                    }
+                }
+            }
+        );
+
+        const { unusedComponents, unusedSymbols, ignoredComponents } = result;
+        const summary = `Scanned ${result.components.length} component(s): ${unusedComponents.length} unused, ${unusedSymbols.length} unused export(s), ${ignoredComponents.length} ignored\n`;
+
+        if (args.format || args.output) {
+            const report = formatReport(unusedComponents, args.format || 'json', { projectRoot: args.root });
+            if (args.output) {
+                await fs.promises.writeFile(args.output, report, 'utf8');
+                process.stdout.write(summary);
+                process.stdout.write(`Report written to ${args.output}\n`);
+            } else {
+                process.stdout.write(report);
+            }
+        } else {
+            process.stdout.write(summary);
+            printResults(args.root, unusedComponents, unusedSymbols);
+        }
+
+        if (unusedComponents.length > args.maxUnused) {
+            process.stderr.write(
+                `\n${unusedComponents.length} unused component(s) exceed the allowed maximum of ${args.maxUnused}\n`
+            );
+            return EXIT_THRESHOLD_EXCEEDED;
+        }
+
+        return EXIT_OK;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        process.stderr.write(`error: Scan failed: ${errorMessage}\n`);
+        return EXIT_ERROR;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
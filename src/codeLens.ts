@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ImporterSummary, ProjectIndex } from './core';
+import { extractComponentSymbols } from './parser';
+import { getDeclarationSymbol, getImporterLocations } from './diagnostics';
+import { readCodeLensSetting } from './settings';
+
+/**
+ * Lens above a component declaration, resolved to its importer summary
+ */
+class ImporterCodeLens extends vscode.CodeLens {
+    index: ProjectIndex;
+    filePath: string;
+
+    constructor(range: vscode.Range, index: ProjectIndex, filePath: string) {
+        super(range);
+        this.index = index;
+        this.filePath = filePath;
+    }
+}
+
+/**
+ * Formats an importer summary, e.g. "3 importers · 1 test · exported from 2 barrels"
+ */
+export function formatImporterSummary(summary: ImporterSummary): string {
+    const count = (n: number, singular: string, plural: string = `${singular}s`): string =>
+        `${n} ${n === 1 ? singular : plural}`;
+
+    const parts = [
+        summary.importers.length === 0 && !summary.isImplicitRoot
+            ? '$(warning) unused'
+            : count(summary.importers.length, 'importer')
+    ];
+    if (summary.testFiles.length > 0) {
+        parts.push(count(summary.testFiles.length, 'test'));
+    }
+    if (summary.storyFiles.length > 0) {
+        parts.push(count(summary.storyFiles.length, 'story', 'stories'));
+    }
+    if (summary.indexExports.length > 0) {
+        parts.push(`exported from ${count(summary.indexExports.length, 'barrel')}`);
+    }
+
+    return parts.join(' · ');
+}
+
+/**
+ * ImporterCodeLensProvider class showing above each component file's
+ * main declaration who imports it, from the index of the last scan.
+ * Clicking the lens peeks the importers.
+ */
+export class ImporterCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private findIndex: (filePath: string) => ProjectIndex | undefined;
+
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(findIndex: (filePath: string) => ProjectIndex | undefined) {
+        this.findIndex = findIndex;
+    }
+
+    /**
+     * Asks the editor for new lenses, e.g. after a scan or index update
+     */
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!readCodeLensSetting(vscode.workspace.getWorkspaceFolder(document.uri))) {
+            return [];
+        }
+
+        const filePath = document.uri.fsPath;
+        const index = this.findIndex(filePath);
+        const component = index?.getComponent(filePath);
+        if (!index || !component) {
+            return [];
+        }
+
+        // Parse the editor text so the lens follows unsaved edits
+        const symbols = extractComponentSymbols(filePath, document.getText(), component.componentName);
+        const line = getDeclarationSymbol(component.componentName, symbols)?.line ?? 0;
+
+        return [new ImporterCodeLens(new vscode.Range(line, 0, line, 0), index, filePath)];
+    }
+
+    async resolveCodeLens(codeLens: vscode.CodeLens): Promise<vscode.CodeLens> {
+        if (!(codeLens instanceof ImporterCodeLens)) {
+            return codeLens;
+        }
+
+        const summary = await codeLens.index.getImporterSummary(codeLens.filePath);
+        if (!summary) {
+            codeLens.command = { title: 'No importer data', command: '' };
+            return codeLens;
+        }
+
+        const title = formatImporterSummary(summary);
+        const files = [...new Set([
+            ...summary.importers,
+            ...summary.testFiles,
+            ...summary.storyFiles,
+            ...summary.indexExports
+        ])];
+        if (files.length === 0) {
+            codeLens.command = { title, command: '', tooltip: 'No file imports this component' };
+            return codeLens;
+        }
+
+        codeLens.command = {
+            title,
+            command: 'editor.action.showReferences',
+            tooltip: 'Show importers',
+            arguments: [
+                vscode.Uri.file(codeLens.filePath),
+                codeLens.range.start,
+                await getImporterLocations(codeLens.filePath, files)
+            ]
+        };
+        return codeLens;
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,478 @@
+import * as path from 'path';
+import {
+    ComponentInfo,
+    invalidateCachedContent,
+    scanComponentFiles,
+    scanReactComponents
+} from './scanner';
+import {
+    DependencyAnalyzer,
+    DependencyGraph,
+    DEFAULT_ENTRY_FILES,
+    ExternalImport,
+    UnusedSymbolInfo
+} from './analyzer';
+import { SafetyChecker, SafetyCheckOptions, SafetyCheckResult } from './safety';
+import { UsageStatus } from './importers';
+import { getRootFolderFor, ProjectHost } from './host';
+import { getExpiredKeepEntries, loadPrunerConfig, PRUNER_CONFIG_FILE } from './ignore';
+import { FileIndex } from './fileIndex';
+import { getWorkerCount, ParserPool } from './workerPool';
+import { findProjectFiles } from './fileSet';
+import { findSidecarFiles } from './sidecars';
+
+/**
+ * How unused components are detected:
+ * `importers` flags components nothing imports, `reachability` flags
+ * components that cannot be reached from the entry files
+ */
+export type ScanMode = 'importers' | 'reachability';
+
+/**
+ * Extended component info with safety and usage status.
+ * `storyFiles` are the stories to offer for deletion with the component,
+ * `sidecarFiles` the styles, types, tests and snapshots deleted with it.
+ */
+export interface UnusedComponentInfo extends ComponentInfo {
+    isSafe?: boolean;
+    safetyCheck?: SafetyCheckResult;
+    usage?: UsageStatus;
+    storyFiles?: string[];
+    sidecarFiles?: string[];
+    storyTitles?: string[];
+    testFiles?: string[];
+}
+
+/**
+ * Options for a full project scan, passed on to the scanner, analyzer
+ * and safety checker. A `fileIndex` lets unchanged files skip parsing,
+ * `maxWorkers` caps the parser worker threads (0 parses on the calling thread).
+ */
+export interface ProjectScanOptions {
+    mode?: ScanMode;
+    includePatterns?: string[];
+    excludePatterns?: string[];
+    testPatterns?: string[];
+    entryFiles?: string[];
+    maxFiles?: number;
+    maxWorkers?: number;
+    safetyChecks?: SafetyCheckOptions;
+    fileIndex?: FileIndex;
+}
+
+/**
+ * Result of a full project scan.
+ * `ignoredComponents` are unused components excluded by
+ * `.componentprunerrc` or an annotation.
+ */
+export interface ProjectScanResult {
+    components: ComponentInfo[];
+    unusedComponents: UnusedComponentInfo[];
+    ignoredComponents: ComponentInfo[];
+    unusedSymbols: UnusedSymbolInfo[];
+    islands: string[][];
+    dependencyGraph: DependencyGraph;
+    analyzer: DependencyAnalyzer;
+}
+
+/**
+ * Who uses a component file: every importer, the tests and stories among
+ * them (including mocks and CSF `component` references) and the index
+ * files re-exporting it
+ */
+export interface ImporterSummary {
+    importers: string[];
+    testFiles: string[];
+    storyFiles: string[];
+    indexExports: string[];
+    isImplicitRoot: boolean;
+}
+
+/**
+ * Receives progress from a project scan
+ */
+export interface ScanProgress {
+    report(increment: number, message: string): void;
+    log(message: string): void;
+}
+
+/**
+ * ProjectIndex class holding the components and import graph of a project
+ * between scans, so file changes can be applied in place instead of
+ * re-reading the whole workspace
+ */
+export class ProjectIndex {
+    private host: ProjectHost;
+    private projectRoot: string;
+    private options: ProjectScanOptions;
+    private components: Map<string, ComponentInfo> = new Map();
+    private analyzer: DependencyAnalyzer;
+    private dependencyGraph: DependencyGraph = {};
+    private safetyChecker: SafetyChecker | undefined;
+
+    constructor(host: ProjectHost, projectRoot: string, options: ProjectScanOptions = {}) {
+        this.host = host;
+        this.projectRoot = projectRoot;
+        this.options = options;
+        this.analyzer = new DependencyAnalyzer(projectRoot, host);
+    }
+
+    /**
+     * Gets the root folder this index was built for
+     */
+    getProjectRoot(): string {
+        return this.projectRoot;
+    }
+
+    /**
+     * Gets the options this index was built with
+     */
+    getOptions(): ProjectScanOptions {
+        return this.options;
+    }
+
+    /**
+     * Checks whether a file belongs to this index's root folders
+     */
+    contains(filePath: string): boolean {
+        return getRootFolderFor(this.host, filePath) !== undefined;
+    }
+
+    /**
+     * Gets the indexed files inside a folder
+     */
+    getFilesUnder(folderPath: string): string[] {
+        const prefix = folderPath.endsWith(path.sep) ? folderPath : folderPath + path.sep;
+        const files = new Set([...this.analyzer.getAllFiles(), ...this.components.keys()]);
+        return [...files].filter(filePath => filePath.startsWith(prefix));
+    }
+
+    /**
+     * Gets a component by its file path
+     */
+    getComponent(filePath: string): ComponentInfo | undefined {
+        return this.components.get(filePath);
+    }
+
+    /**
+     * Gets who imports a component file, or undefined when the file is
+     * not a component
+     */
+    async getImporterSummary(filePath: string): Promise<ImporterSummary | undefined> {
+        if (!this.components.has(filePath)) {
+            return undefined;
+        }
+
+        return {
+            importers: this.analyzer.getImportInfo(filePath).importedFrom,
+            testFiles: this.analyzer.getTestImporters(filePath),
+            storyFiles: this.analyzer.getStoryImporters(filePath),
+            indexExports: this.options.safetyChecks?.checkIndexExports === false
+                ? []
+                : await this.getSafetyChecker().findIndexExports(filePath),
+            isImplicitRoot: this.analyzer.isImplicitRoot(filePath)
+        };
+    }
+
+    /**
+     * Gets the imports of this project that point into other folders
+     */
+    getExternalImports(): ExternalImport[] {
+        return this.analyzer.getExternalImports();
+    }
+
+    /**
+     * Replaces the imports other folders make into this project
+     */
+    setExternalImports(externalImports: ExternalImport[]): void {
+        this.dependencyGraph = this.analyzer.setExternalImports(externalImports, [...this.components.keys()]);
+    }
+
+    /**
+     * Runs phases 1 and 2: discovers components and reads the imports of
+     * every project file
+     */
+    async build(progress?: ScanProgress): Promise<void> {
+        const report = (increment: number, message: string): void => progress?.report(increment, message);
+        const log = (message: string): void => progress?.log(message);
+        const { testPatterns, maxFiles, fileIndex } = this.options;
+
+        try {
+            const expired = getExpiredKeepEntries(loadPrunerConfig(this.projectRoot));
+            if (expired.length > 0) {
+                this.host.showWarning(
+                    `${expired.length} keep entr${expired.length === 1 ? 'y' : 'ies'} in ${PRUNER_CONFIG_FILE} expired (${expired.map(e => e.path).join(', ')}). Matching components are reported again.`
+                );
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(`Invalid ${PRUNER_CONFIG_FILE}: ${errorMessage}`);
+            this.host.showWarning(`Ignoring invalid ${PRUNER_CONFIG_FILE}: ${errorMessage}`);
+        }
+
+        // Parsing runs in worker threads for phases 1 and 2
+        const workerCount = getWorkerCount(this.options.maxWorkers);
+        const parserPool = workerCount > 0 ? new ParserPool(workerCount) : undefined;
+
+        try {
+            // Phase 1: Scan for components
+            report(0, 'Phase 1/4: Scanning for React components...');
+            log('Phase 1: Scanning for React components');
+
+            // Discover the file set once for every phase
+            const projectFiles = await findProjectFiles(this.host, {
+                includePatterns: this.options.includePatterns,
+                excludePatterns: this.options.excludePatterns,
+                maxFiles
+            });
+            log(`Found ${projectFiles.length} project files`);
+
+            const components = await scanReactComponents(this.host, {
+                includePatterns: this.options.includePatterns,
+                excludePatterns: this.options.excludePatterns,
+                testPatterns,
+                maxFiles,
+                projectFiles,
+                fileIndex,
+                parserPool
+            });
+            this.components = new Map(components.map(c => [c.filePath, c]));
+            log(`Found ${components.length} React components`);
+
+            // Phase 2: Analyze dependencies
+            report(25, 'Phase 2/4: Analyzing dependencies...');
+            log('Phase 2: Analyzing dependencies');
+
+            this.analyzer = new DependencyAnalyzer(this.projectRoot, this.host);
+            this.safetyChecker = undefined;
+            this.dependencyGraph = await this.analyzer.analyzeImports(
+                components.map(c => c.filePath),
+                this.projectRoot,
+                {
+                    includePatterns: this.options.includePatterns,
+                    excludePatterns: this.options.excludePatterns,
+                    entryFiles: this.options.entryFiles,
+                    testPatterns,
+                    maxFiles,
+                    projectFiles,
+                    fileIndex,
+                    parserPool
+                }
+            );
+
+            log(`Analyzed dependencies for ${Object.keys(this.dependencyGraph).length} components`);
+        } finally {
+            await parserPool?.dispose();
+        }
+
+        fileIndex?.retainScanned(this.projectRoot, [...this.analyzer.getAllFiles(), ...this.components.keys()]);
+    }
+
+    /**
+     * Applies file changes in place: changed files are scanned and parsed
+     * again, deleted files are dropped, and the dependency graph is rebuilt
+     * from the imports already in memory
+     */
+    async update(changedFiles: string[], deletedFiles: string[]): Promise<void> {
+        invalidateCachedContent([...changedFiles, ...deletedFiles]);
+
+        for (const filePath of [...changedFiles, ...deletedFiles]) {
+            this.components.delete(filePath);
+        }
+
+        const rescanned = await scanComponentFiles(this.host, changedFiles, {
+            includePatterns: this.options.includePatterns,
+            excludePatterns: this.options.excludePatterns,
+            testPatterns: this.options.testPatterns,
+            maxFiles: this.options.maxFiles,
+            fileIndex: this.options.fileIndex
+        });
+        for (const component of rescanned) {
+            this.components.set(component.filePath, component);
+        }
+
+        this.dependencyGraph = await this.analyzer.updateFiles(
+            changedFiles,
+            deletedFiles,
+            [...this.components.keys()]
+        );
+        this.safetyChecker = undefined;
+    }
+
+    /**
+     * Runs phases 3 and 4 on the current index: finds unused components and
+     * checks whether they are safe to delete
+     */
+    async analyze(progress?: ScanProgress): Promise<ProjectScanResult> {
+        const report = (increment: number, message: string): void => progress?.report(increment, message);
+        const log = (message: string): void => progress?.log(message);
+        const { options, host, analyzer, dependencyGraph } = this;
+        const { testPatterns, maxFiles } = options;
+
+        const components = [...this.components.values()]
+            .sort((a, b) => a.filePath.localeCompare(b.filePath));
+        const result: ProjectScanResult = {
+            components,
+            unusedComponents: [],
+            ignoredComponents: [],
+            unusedSymbols: [],
+            islands: [],
+            dependencyGraph,
+            analyzer
+        };
+
+        if (components.length === 0) {
+            return result;
+        }
+
+        const componentPaths = components.map(c => c.filePath);
+
+        // Phase 3: Find unused components
+        report(25, 'Phase 3/4: Finding unused components...');
+        log('Phase 3: Finding unused components');
+
+        const ignoredPaths = new Set(components.filter(c => c.ignored).map(c => c.filePath));
+        const entryFiles = options.entryFiles || DEFAULT_ENTRY_FILES;
+        let unusedPaths = analyzer.findUnused(componentPaths, entryFiles);
+        let flaggedIgnoredPaths = unusedPaths;
+
+        if (options.mode === 'reachability') {
+            let reachability = analyzer.findUnreachable(componentPaths, entryFiles);
+
+            if (reachability.entryFiles.length === 0) {
+                log('No entry files found, falling back to zero-importer detection');
+                host.showWarning(
+                    `No entry file found (looked for ${entryFiles.slice(0, 4).join(', ')}, ...). Showing components with no importers instead.`
+                );
+            } else {
+                log(`Walking imports from ${reachability.entryFiles.length} entry file(s)`);
+                flaggedIgnoredPaths = reachability.unreachable;
+
+                // Ignored components are kept, so whatever they import is reachable too
+                if (ignoredPaths.size > 0) {
+                    reachability = analyzer.findUnreachable(componentPaths, [...entryFiles, ...ignoredPaths]);
+                }
+                unusedPaths = reachability.unreachable;
+                result.islands = reachability.islands;
+                log(`Found ${result.islands.length} orphaned island(s)`);
+            }
+        }
+
+        // In importers mode ignored components stay in the graph, so whatever
+        // they import already counts as used
+        result.ignoredComponents = components.filter(
+            c => ignoredPaths.has(c.filePath) && flaggedIgnoredPaths.includes(c.filePath)
+        );
+        unusedPaths = unusedPaths.filter(p => !ignoredPaths.has(p));
+        result.unusedSymbols = analyzer.findUnusedSymbols(components)
+            .filter(info => !ignoredPaths.has(info.filePath));
+        log(`Found ${unusedPaths.length} unused components`);
+        log(`Skipped ${result.ignoredComponents.length} ignored components`);
+        log(`Found ${result.unusedSymbols.length} unused component declarations in used files`);
+
+        // Map unused paths to component info
+        const unusedComponents = components.filter(c => unusedPaths.includes(c.filePath));
+
+        // Phase 4: Run safety checks
+        report(25, 'Phase 4/4: Running safety checks...');
+        log('Phase 4: Running safety checks');
+
+        const safetyChecker = this.getSafetyChecker();
+        const totalChecks = unusedComponents.length;
+        const safetyCheckIncrement = 25 / Math.max(totalChecks, 1);
+
+        for (let i = 0; i < unusedComponents.length; i++) {
+            const component = unusedComponents[i];
+            const storyFiles = analyzer.getStoryImporters(component.filePath);
+            const usage = {
+                usage: analyzer.getUsageStatus(component.filePath),
+                storyFiles,
+                sidecarFiles: findSidecarFiles(component.filePath, filePath => analyzer.getFileImporters(filePath))
+                    .filter(filePath => !storyFiles.some(storyFile => path.resolve(storyFile) === path.resolve(filePath))),
+                storyTitles: analyzer.getStoryTitles(component.filePath),
+                testFiles: analyzer.getTestImporters(component.filePath)
+            };
+
+            report(safetyCheckIncrement, `Phase 4/4: Checking safety (${i + 1}/${totalChecks})...`);
+
+            try {
+                const safetyCheck = await safetyChecker.checkSafeDeletion(
+                    component.filePath,
+                    dependencyGraph,
+                    undefined,
+                    { ...options.safetyChecks, testPatterns, maxFiles, entryFiles }
+                );
+
+                result.unusedComponents.push({
+                    ...component,
+                    ...usage,
+                    isSafe: safetyCheck.isSafe,
+                    safetyCheck: safetyCheck
+                });
+
+                log(`Safety check for ${component.componentName}: ${safetyCheck.isSafe ? 'SAFE' : 'UNSAFE'}`);
+            } catch (error) {
+                log(
+                    `Error checking safety for ${component.componentName}: ${
+                        error instanceof Error ? error.message : 'Unknown error'
+                    }`
+                );
+                // Add component with unknown safety status
+                result.unusedComponents.push({
+                    ...component,
+                    ...usage,
+                    isSafe: undefined
+                });
+            }
+        }
+
+        log(`Scan complete. Found ${result.unusedComponents.length} unused components`);
+        return result;
+    }
+
+    /**
+     * Gets the safety checker for the current file set, creating it after
+     * a build or update
+     */
+    private getSafetyChecker(): SafetyChecker {
+        if (!this.safetyChecker) {
+            this.safetyChecker = new SafetyChecker(this.projectRoot, this.host, {
+                includePatterns: this.options.includePatterns,
+                excludePatterns: this.options.excludePatterns,
+                maxFiles: this.options.maxFiles,
+                projectFiles: this.analyzer.getProjectFiles()
+            });
+        }
+        return this.safetyChecker;
+    }
+}
+
+/**
+ * Runs all scan phases (discover components, analyze imports, find
+ * unused components, check deletion safety) against a host
+ */
+export async function scanProject(
+    host: ProjectHost,
+    projectRoot: string,
+    options: ProjectScanOptions = {},
+    progress?: ScanProgress
+): Promise<ProjectScanResult> {
+    const index = new ProjectIndex(host, projectRoot, options);
+    await index.build(progress);
+    return index.analyze(progress);
+}
+
+/**
+ * Connects the indexes of several workspace folders: every index learns
+ * which of its components the other folders import. With `crossFolder`
+ * off, each folder is analyzed on its own.
+ */
+export function linkProjectIndexes(indexes: ProjectIndex[], crossFolder: boolean = true): void {
+    const outgoing = new Map(indexes.map(index => [index, crossFolder ? index.getExternalImports() : []]));
+
+    for (const index of indexes) {
+        index.setExternalImports(
+            indexes.filter(other => other !== index).flatMap(other => outgoing.get(other)!)
+        );
+    }
+}
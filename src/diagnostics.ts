@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ScanMode, UnusedComponentInfo } from './core';
+import { getCachedContent } from './scanner';
+import { ComponentSymbol } from './parser';
+import { readDiagnosticSeverity } from './settings';
+
+/**
+ * Source shown next to the diagnostics in the Problems view
+ */
+export const DIAGNOSTIC_SOURCE = 'Component Pruner';
+
+/**
+ * Diagnostic severities selectable in the settings; `off` publishes nothing
+ */
+export type DiagnosticSeveritySetting = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+const SEVERITIES: Record<Exclude<DiagnosticSeveritySetting, 'off'>, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+/**
+ * Source files the quick fixes are offered in
+ */
+export const COMPONENT_DOCUMENT_SELECTOR: vscode.DocumentSelector = {
+    scheme: 'file',
+    pattern: '**/*.{js,jsx,ts,tsx}'
+};
+
+/**
+ * UnusedComponentDiagnostics class publishing unused component files to
+ * the Problems view and offering quick fixes for them
+ */
+export class UnusedComponentDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private collection: vscode.DiagnosticCollection;
+    private components: UnusedComponentInfo[] = [];
+    private mode: ScanMode = 'importers';
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('unused-components');
+    }
+
+    /**
+     * Replaces the published diagnostics with the given scan results
+     */
+    async update(components: UnusedComponentInfo[], mode: ScanMode): Promise<void> {
+        this.components = components;
+        this.mode = mode;
+        await this.publish();
+    }
+
+    /**
+     * Publishes the last results again, e.g. after the severity setting changed
+     */
+    async refresh(): Promise<void> {
+        await this.publish();
+    }
+
+    /**
+     * Drops the diagnostics of deleted or ignored files
+     */
+    remove(filePaths: string[]): void {
+        const removed = new Set(filePaths);
+        this.components = this.components.filter(component => !removed.has(component.filePath));
+        for (const filePath of filePaths) {
+            this.collection.delete(vscode.Uri.file(filePath));
+        }
+    }
+
+    /**
+     * Offers delete, ignore and show importers for the file's diagnostic
+     */
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const diagnostic = context.diagnostics.find(d => d.source === DIAGNOSTIC_SOURCE);
+        if (!diagnostic) {
+            return [];
+        }
+
+        const filePath = document.uri.fsPath;
+        const action = (title: string, command: string): vscode.CodeAction => {
+            const codeAction = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            codeAction.diagnostics = [diagnostic];
+            codeAction.command = { title, command, arguments: [filePath] };
+            return codeAction;
+        };
+
+        return [
+            action('Delete unused component', 'unused-component-detector.delete'),
+            action('Ignore this component', 'unused-component-detector.ignoreComponent'),
+            action('Show importers', 'unused-component-detector.showImporters')
+        ];
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Sets one diagnostic per component file, on its component declaration
+     */
+    private async publish(): Promise<void> {
+        const entries: Array<[vscode.Uri, vscode.Diagnostic[]]> = [];
+
+        for (const component of this.components) {
+            const uri = vscode.Uri.file(component.filePath);
+            const severity = readDiagnosticSeverity(vscode.workspace.getWorkspaceFolder(uri));
+            if (severity === 'off') {
+                continue;
+            }
+
+            const range = await this.getDeclarationRange(component);
+            const diagnostic = new vscode.Diagnostic(range, this.getMessage(component), SEVERITIES[severity]);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = this.mode === 'reachability'
+                ? 'unreachable-component'
+                : `${component.usage || 'unused'}-component`;
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            diagnostic.relatedInformation = (component.safetyCheck?.warnings || []).map(
+                warning => new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, range), warning)
+            );
+            entries.push([uri, [diagnostic]]);
+        }
+
+        this.collection.clear();
+        this.collection.set(entries);
+    }
+
+    /**
+     * Gets the problem message for a component
+     */
+    private getMessage(component: UnusedComponentInfo): string {
+        const usage = this.mode === 'reachability' ? 'is not reachable from the entry files'
+            : component.usage === 'stories-only' ? 'is only used by stories'
+            : component.usage === 'tests-only' ? 'is only used by tests' : 'is never imported';
+        const verdict = component.isSafe === false ? ' Review the warnings before deleting it.' : '';
+
+        return `${component.componentName} ${usage}.${verdict}`;
+    }
+
+    /**
+     * Gets the range of the component's name in its declaration, falling
+     * back to the first line when the file has no parsed declaration
+     */
+    private async getDeclarationRange(component: UnusedComponentInfo): Promise<vscode.Range> {
+        const symbol = getDeclarationSymbol(component.componentName, component.symbols);
+        if (!symbol) {
+            return new vscode.Range(0, 0, 0, 0);
+        }
+
+        try {
+            const line = (await getCachedContent(component.filePath)).split('\n')[symbol.line] || '';
+            const column = line.search(new RegExp(`\\b${symbol.name}\\b`));
+            if (column >= 0) {
+                return new vscode.Range(symbol.line, column, symbol.line, column + symbol.name.length);
+            }
+            return new vscode.Range(symbol.line, 0, symbol.line, line.length);
+        } catch {
+            return new vscode.Range(symbol.line, 0, symbol.line, 0);
+        }
+    }
+}
+
+/**
+ * Gets the declaration of a file's main component: the one named after
+ * the file, else the first exported one
+ */
+export function getDeclarationSymbol(componentName: string, symbols: ComponentSymbol[]): ComponentSymbol | undefined {
+    return symbols.find(s => s.name === componentName)
+        || symbols.find(s => s.isExported)
+        || symbols[0];
+}
+
+/**
+ * Gets the location of the import of a component in each importer, or
+ * the start of the importer when no import line mentions the component
+ */
+export async function getImporterLocations(componentPath: string, importers: string[]): Promise<vscode.Location[]> {
+    const stem = path.basename(componentPath, path.extname(componentPath));
+    const name = (stem === 'index' ? path.basename(path.dirname(componentPath)) : stem)
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The module specifier, which may sit on a later line than `import`
+    const pattern = new RegExp(`['"]([^'"]*/)?${name}(\\.\\w+)?['"]`);
+
+    const locations: vscode.Location[] = [];
+    for (const importer of importers) {
+        let position = new vscode.Position(0, 0);
+        try {
+            const lines = (await getCachedContent(importer)).split('\n');
+            const line = lines.findIndex(text => pattern.test(text));
+            if (line >= 0) {
+                position = new vscode.Position(line, 0);
+            }
+        } catch {
+            // Unreadable importer, point at its start
+        }
+        locations.push(new vscode.Location(vscode.Uri.file(importer), position));
+    }
+
+    return locations;
+}
@@ -1,15 +1,61 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { scanReactComponents } from './scanner';
-import { DependencyAnalyzer } from './analyzer';
-import { SafetyChecker } from './safety';
-import { UnusedComponentsPanel, UnusedComponentInfo } from './ui';
+import * as fs from 'fs';
+import {
+    linkProjectIndexes,
+    ProjectIndex,
+    ProjectScanResult,
+    ScanMode,
+    ScanProgress,
+    UnusedComponentInfo
+} from './core';
+import { WorkspaceHost } from './workspaceHost';
+import { UnusedComponentsPanel } from './ui';
+import { formatFileSize, formatReport, ReportFormat, REPORT_FILE_EXTENSIONS } from './report';
+import { affectsScanSettings, readCrossFolderSetting, readScanSettings, SETTINGS_SECTION } from './settings';
+import { ProjectWatcher } from './watcher';
+import { FileIndex } from './fileIndex';
+import { clearCache } from './scanner';
+import {
+    COMPONENT_DOCUMENT_SELECTOR,
+    getDeclarationSymbol,
+    getImporterLocations,
+    UnusedComponentDiagnostics
+} from './diagnostics';
+import { ImporterCodeLensProvider } from './codeLens';
+import { ComponentNode, UnusedComponentsTree } from './treeView';
+import { confirmRemoval, listDeletionBatches, purgeExpiredBatches, removeFiles, restoreBatch } from './quarantine';
+import {
+    abandonBranch,
+    commit,
+    createBranch,
+    findRepositoryRoot,
+    formatPruneCommitMessage,
+    getCurrentRef,
+    isWorkingTreeClean,
+    removeTrackedFiles,
+    validateBranchName
+} from './git';
+
+/**
+ * Name of the per-file index in the extension's workspace storage
+ */
+const FILE_INDEX_FILE = 'file-index.json';
 
 /**
  * Extension state
  */
 let statusBarItem: vscode.StatusBarItem;
 let outputChannel: vscode.OutputChannel;
+let lastScan: { folders: string[]; mode: ScanMode; unusedComponents: UnusedComponentInfo[] } | undefined;
+const projectIndexes: Map<string, ProjectIndex> = new Map();
+const folderResults: Map<string, ProjectScanResult> = new Map();
+let watcher: ProjectWatcher;
+let indexUpdate: Promise<void> = Promise.resolve();
+let fileIndex: Promise<FileIndex>;
+let diagnostics: UnusedComponentDiagnostics;
+let codeLenses: ImporterCodeLensProvider;
+let componentsTree: UnusedComponentsTree;
 
 /**
  * This method is called when the extension is activated
@@ -31,6 +77,25 @@ export function activate(context: vscode.ExtensionContext): void {
     statusBarItem.tooltip = 'Scan for unused React components';
     statusBarItem.show();
 
+    // Load parse results from earlier sessions in the background
+    const storageUri = context.storageUri || context.globalStorageUri;
+    fileIndex = FileIndex.load(path.join(storageUri.fsPath, FILE_INDEX_FILE));
+
+    // Show unused components in the Problems view, with quick fixes
+    diagnostics = new UnusedComponentDiagnostics();
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+        COMPONENT_DOCUMENT_SELECTOR,
+        diagnostics,
+        { providedCodeActionKinds: UnusedComponentDiagnostics.providedCodeActionKinds }
+    );
+
+    // Show importer counts above component declarations
+    codeLenses = new ImporterCodeLensProvider(getProjectIndexFor);
+    const codeLensProvider = vscode.languages.registerCodeLensProvider(COMPONENT_DOCUMENT_SELECTOR, codeLenses);
+
+    // List unused components in the sidebar
+    componentsTree = new UnusedComponentsTree();
+
     // Register scan command
     const scanCommand = vscode.commands.registerCommand(
         'unused-component-detector.scan',
@@ -39,11 +104,80 @@ export function activate(context: vscode.ExtensionContext): void {
         }
     );
 
+    // Register reachability scan command
+    const scanReachabilityCommand = vscode.commands.registerCommand(
+        'unused-component-detector.scanReachability',
+        async () => {
+            await scanForUnusedComponents(context, 'reachability');
+        }
+    );
+
+    // Register folder scan command
+    const scanFolderCommand = vscode.commands.registerCommand(
+        'unused-component-detector.scanFolder',
+        async (folderPath?: string) => {
+            await scanFolder(context, folderPath);
+        }
+    );
+
     // Register delete command
     const deleteCommand = vscode.commands.registerCommand(
         'unused-component-detector.delete',
+        async (target?: string | string[] | ComponentNode) => {
+            if (Array.isArray(target)) {
+                return deleteComponents(target);
+            }
+            const componentPath = getComponentPath(target);
+            return componentPath ? deleteComponents([componentPath]) : [];
+        }
+    );
+
+    // Register ignore command, used by the quick fix and the sidebar
+    const ignoreCommand = vscode.commands.registerCommand(
+        'unused-component-detector.ignoreComponent',
+        async (target?: string | ComponentNode) => {
+            const componentPath = getComponentPath(target);
+            if (componentPath) {
+                await ignoreComponent(componentPath);
+            }
+        }
+    );
+
+    // Register show importers command, used by the quick fix
+    const showImportersCommand = vscode.commands.registerCommand(
+        'unused-component-detector.showImporters',
         async (componentPath: string) => {
-            await deleteComponent(componentPath);
+            await showImporters(componentPath);
+        }
+    );
+
+    // Register open and reveal commands, used by the sidebar
+    const openComponentCommand = vscode.commands.registerCommand(
+        'unused-component-detector.openComponent',
+        async (node: ComponentNode) => {
+            await openComponent(node);
+        }
+    );
+    const revealCommand = vscode.commands.registerCommand(
+        'unused-component-detector.revealInExplorer',
+        async (node: ComponentNode) => {
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(node.component.filePath));
+        }
+    );
+
+    // Register prune to branch command, used by the panel and the sidebar
+    const pruneToBranchCommand = vscode.commands.registerCommand(
+        'unused-component-detector.pruneToBranch',
+        async (componentPaths?: string[]) => {
+            return pruneToBranch(componentPaths);
+        }
+    );
+
+    // Register restore command for quarantined deletions
+    const restoreCommand = vscode.commands.registerCommand(
+        'unused-component-detector.restoreDeleted',
+        async () => {
+            await restoreDeletedComponents();
         }
     );
 
@@ -51,7 +185,82 @@ export function activate(context: vscode.ExtensionContext): void {
     const refreshCommand = vscode.commands.registerCommand(
         'unused-component-detector.refresh',
         async () => {
-            await scanForUnusedComponents(context);
+            await refreshResults(context);
+        }
+    );
+
+    // Keep the index in step with file creates, changes and deletes
+    watcher = new ProjectWatcher(() => {
+        indexUpdate = indexUpdate.then(applyPendingChanges);
+    });
+
+    // Register export command
+    const exportReportCommand = vscode.commands.registerCommand(
+        'unused-component-detector.exportReport',
+        async () => {
+            await exportReport(context);
+        }
+    );
+
+    // Register clear index command
+    const clearIndexCommand = vscode.commands.registerCommand(
+        'unused-component-detector.clearIndex',
+        async () => {
+            await clearIndex();
+        }
+    );
+
+    // Re-run the last scan of folders whose settings changed
+    const configurationListener = vscode.workspace.onDidChangeConfiguration(async (event) => {
+        if (!lastScan) {
+            return;
+        }
+
+        if (event.affectsConfiguration(`${SETTINGS_SECTION}.diagnostics`)) {
+            await diagnostics.refresh();
+        }
+        if (event.affectsConfiguration(`${SETTINGS_SECTION}.codeLens`)) {
+            codeLenses.refresh();
+        }
+
+        const affected = lastScan.folders.filter(
+            folder => affectsScanSettings(event, vscode.Uri.file(folder))
+        );
+        if (affected.length > 0) {
+            log('Settings changed, re-running scan');
+            await scanForUnusedComponents(context, lastScan.mode, affected);
+        }
+    });
+
+    // Forget folders removed from the workspace
+    const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+        for (const folder of event.removed) {
+            projectIndexes.delete(folder.uri.fsPath);
+            folderResults.delete(folder.uri.fsPath);
+            log(`Workspace folder removed: ${folder.name}`);
+        }
+        if (event.removed.length > 0) {
+            linkProjectIndexes([...projectIndexes.values()], readCrossFolderSetting());
+            if (lastScan) {
+                const { folders, unusedComponents } = getCombinedResults();
+                lastScan = { ...lastScan, folders, unusedComponents };
+                diagnostics.update(unusedComponents, lastScan.mode);
+                componentsTree.update(unusedComponents);
+            }
+            codeLenses.refresh();
+        }
+    });
+
+    // Permanently delete quarantined batches past their retention period
+    purgeExpiredBatches().then(
+        purged => {
+            if (purged > 0) {
+                log(`Purged ${purged} expired deletion batch(es)`);
+            }
+        },
+        error => {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            log(`Failed to purge deletion batches: ${errorMessage}`);
         }
     );
 
@@ -60,8 +269,26 @@ export function activate(context: vscode.ExtensionContext): void {
         statusBarItem,
         outputChannel,
         scanCommand,
+        scanReachabilityCommand,
+        scanFolderCommand,
         deleteCommand,
-        refreshCommand
+        ignoreCommand,
+        showImportersCommand,
+        openComponentCommand,
+        revealCommand,
+        pruneToBranchCommand,
+        restoreCommand,
+        refreshCommand,
+        exportReportCommand,
+        clearIndexCommand,
+        configurationListener,
+        foldersListener,
+        watcher,
+        diagnostics,
+        codeActionProvider,
+        codeLenses,
+        codeLensProvider,
+        componentsTree
     );
 }
 
@@ -79,13 +306,16 @@ export function deactivate(): void {
 }
 
 /**
- * Main scan function that orchestrates all phases
+ * Main scan function that orchestrates all phases. Each workspace folder
+ * gets its own index; `folderPaths` limits the scan to some folders and
+ * keeps the results of the others.
  */
 async function scanForUnusedComponents(
-    context: vscode.ExtensionContext
+    context: vscode.ExtensionContext,
+    mode: ScanMode = 'importers',
+    folderPaths?: string[]
 ): Promise<void> {
     try {
-        // Get workspace root
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
             vscode.window.showWarningMessage(
@@ -94,8 +324,17 @@ async function scanForUnusedComponents(
             return;
         }
 
-        const projectRoot = workspaceFolders[0].uri.fsPath;
-        log(`Starting scan in: ${projectRoot}`);
+        // Results of another mode can't be shown side by side, so switching rescans everything
+        const folders = folderPaths && (!lastScan || lastScan.mode === mode)
+            ? workspaceFolders.filter(folder => folderPaths.includes(folder.uri.fsPath))
+            : [...workspaceFolders];
+        if (folders.length === workspaceFolders.length) {
+            folderResults.clear();
+        }
+
+        // Bring the other folders' indexes up to date; rebuilt folders re-read every file anyway
+        indexUpdate = indexUpdate.then(applyPendingChanges);
+        await indexUpdate;
 
         // Run scan with progress indicator
         await vscode.window.withProgress(
@@ -106,132 +345,81 @@ async function scanForUnusedComponents(
             },
             async (progress) => {
                 try {
-                    // Phase 1: Scan for components
-                    progress.report({
-                        increment: 0,
-                        message: 'Phase 1/4: Scanning for React components...'
+                    const scanProgress = (folder: vscode.WorkspaceFolder): ScanProgress => ({
+                        report: (increment, message) => progress.report({
+                            increment: increment / folders.length,
+                            message: workspaceFolders.length > 1 ? `${folder.name}: ${message}` : message
+                        }),
+                        log
                     });
-                    log('Phase 1: Scanning for React components');
 
-                    const allComponents = await scanReactComponents();
-                    log(`Found ${allComponents.length} React components`);
+                    for (const folder of folders) {
+                        const projectRoot = folder.uri.fsPath;
+                        log(`Starting scan in: ${projectRoot}`);
 
-                    if (allComponents.length === 0) {
-                        vscode.window.showInformationMessage(
-                            'No React components found in the workspace.'
-                        );
-                        return;
+                        const index = new ProjectIndex(new WorkspaceHost([projectRoot]), projectRoot, {
+                            ...readScanSettings(folder),
+                            mode,
+                            fileIndex: await fileIndex
+                        });
+                        await index.build(scanProgress(folder));
+                        projectIndexes.set(projectRoot, index);
                     }
+                    await saveFileIndex();
 
-                    // Phase 2: Analyze dependencies
-                    progress.report({
-                        increment: 25,
-                        message: 'Phase 2/4: Analyzing dependencies...'
-                    });
-                    log('Phase 2: Analyzing dependencies');
-
-                    const componentPaths = allComponents.map(c => c.filePath);
-                    const analyzer = new DependencyAnalyzer(projectRoot);
-                    const dependencyGraph = await analyzer.analyzeImports(
-                        componentPaths,
-                        projectRoot
-                    );
-
-                    log(`Analyzed dependencies for ${Object.keys(dependencyGraph).length} components`);
+                    if (projectIndexes.size > 1) {
+                        linkProjectIndexes([...projectIndexes.values()], readCrossFolderSetting());
+                    }
+                    codeLenses.refresh();
 
-                    // Phase 3: Find unused components
-                    progress.report({
-                        increment: 25,
-                        message: 'Phase 3/4: Finding unused components...'
-                    });
-                    log('Phase 3: Finding unused components');
+                    for (const folder of folders) {
+                        const index = projectIndexes.get(folder.uri.fsPath)!;
+                        folderResults.set(folder.uri.fsPath, await index.analyze(scanProgress(folder)));
+                    }
 
-                    const unusedPaths = analyzer.findUnused(componentPaths);
-                    log(`Found ${unusedPaths.length} unused components`);
+                    const combined = getCombinedResults();
+                    lastScan = { mode, folders: combined.folders, unusedComponents: combined.unusedComponents };
+                    await diagnostics.update(combined.unusedComponents, mode);
+                    componentsTree.update(combined.unusedComponents);
+                    await vscode.commands.executeCommand('setContext', 'unusedComponentDetector.hasScanned', true);
 
-                    if (unusedPaths.length === 0) {
+                    if (combined.components.length === 0) {
                         vscode.window.showInformationMessage(
-                            'Great! All components are being used. No unused components found.'
+                            'No React components found in the workspace.'
                         );
                         return;
                     }
 
-                    // Map unused paths to component info
-                    const unusedComponents = allComponents.filter(c =>
-                        unusedPaths.includes(c.filePath)
-                    );
-
-                    // Phase 4: Run safety checks
-                    progress.report({
-                        increment: 25,
-                        message: 'Phase 4/4: Running safety checks...'
-                    });
-                    log('Phase 4: Running safety checks');
-
-                    // Load file contents for performance
-                    const allContent = await loadFileContents(
-                        unusedComponents.map(c => c.filePath)
-                    );
+                    const { unusedComponents, unusedSymbols, islands, ignoredComponents, dependencyGraph } = combined;
 
-                    const safetyChecker = new SafetyChecker(projectRoot);
-                    const unusedComponentsWithSafety: UnusedComponentInfo[] = [];
-
-                    const totalChecks = unusedComponents.length;
-                    const safetyCheckIncrement = 25 / Math.max(totalChecks, 1);
-                    
-                    for (let i = 0; i < unusedComponents.length; i++) {
-                        const component = unusedComponents[i];
-
-                        progress.report({
-                            increment: safetyCheckIncrement,
-                            message: `Phase 4/4: Checking safety (${i + 1}/${totalChecks})...`
-                        });
-
-                        try {
-                            const safetyCheck = await safetyChecker.checkSafeDeletion(
-                                component.filePath,
-                                dependencyGraph,
-                                allContent
-                            );
-
-                            unusedComponentsWithSafety.push({
-                                ...component,
-                                isSafe: safetyCheck.isSafe,
-                                safetyCheck: safetyCheck
-                            });
-
-                            log(
-                                `Safety check for ${component.componentName}: ${
-                                    safetyCheck.isSafe ? 'SAFE' : 'UNSAFE'
-                                }`
-                            );
-                        } catch (error) {
-                            log(
-                                `Error checking safety for ${component.componentName}: ${
-                                    error instanceof Error ? error.message : 'Unknown error'
-                                }`
-                            );
-                            // Add component with unknown safety status
-                            unusedComponentsWithSafety.push({
-                                ...component,
-                                isSafe: undefined
-                            });
-                        }
+                    if (unusedComponents.length === 0 && unusedSymbols.length === 0 && ignoredComponents.length === 0) {
+                        vscode.window.showInformationMessage(
+                            'Great! All components are being used. No unused components found.'
+                        );
+                        return;
                     }
 
                     // Display results
-                    log(`Scan complete. Found ${unusedComponentsWithSafety.length} unused components`);
-                    UnusedComponentsPanel.show(context, unusedComponentsWithSafety);
+                    UnusedComponentsPanel.show(context, unusedComponents, unusedSymbols, islands, ignoredComponents, dependencyGraph);
 
                     // Show summary notification
-                    const safeCount = unusedComponentsWithSafety.filter(
+                    const safeCount = unusedComponents.filter(
                         c => c.isSafe === true
                     ).length;
-                    const unsafeCount = unusedComponentsWithSafety.filter(
+                    const unsafeCount = unusedComponents.filter(
                         c => c.isSafe === false
                     ).length;
 
-                    const message = `Found ${unusedComponentsWithSafety.length} unused component(s): ${safeCount} safe, ${unsafeCount} unsafe`;
+                    let message = `Found ${unusedComponents.length} unused component(s): ${safeCount} safe, ${unsafeCount} unsafe`;
+                    if (unusedSymbols.length > 0) {
+                        message += `, plus ${unusedSymbols.length} unused export(s)`;
+                    }
+                    if (ignoredComponents.length > 0) {
+                        message += ` (${ignoredComponents.length} ignored)`;
+                    }
+                    if (folders.length < workspaceFolders.length) {
+                        message += ` after rescanning ${folders.map(folder => folder.name).join(', ')}`;
+                    }
                     vscode.window.showInformationMessage(message);
                 } catch (error) {
                     const errorMessage =
@@ -254,63 +442,611 @@ async function scanForUnusedComponents(
 }
 
 /**
- * Loads file contents for performance optimization
+ * Scans a single workspace folder, asking for one when none is given
  */
-async function loadFileContents(
-    filePaths: string[]
-): Promise<Map<string, string>> {
-    const contentMap = new Map<string, string>();
+async function scanFolder(context: vscode.ExtensionContext, folderPath?: string): Promise<void> {
+    if (!folderPath) {
+        const folder = await vscode.window.showWorkspaceFolderPick({
+            placeHolder: 'Select a workspace folder to scan'
+        });
+        if (!folder) {
+            return;
+        }
+        folderPath = folder.uri.fsPath;
+    }
 
-    for (const filePath of filePaths) {
-        try {
-            const uri = vscode.Uri.file(filePath);
-            const document = await vscode.workspace.openTextDocument(uri);
-            contentMap.set(filePath, document.getText());
-        } catch (error) {
-            log(`Error loading file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    await scanForUnusedComponents(context, lastScan?.mode, [folderPath]);
+}
+
+/**
+ * Merges the per-folder results in workspace folder order
+ */
+function getCombinedResults(): {
+    folders: string[];
+    components: ProjectScanResult['components'];
+    unusedComponents: UnusedComponentInfo[];
+    unusedSymbols: ProjectScanResult['unusedSymbols'];
+    islands: string[][];
+    ignoredComponents: ProjectScanResult['ignoredComponents'];
+    dependencyGraph: ProjectScanResult['dependencyGraph'];
+} {
+    const order = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+    const folders = [...folderResults.keys()].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    const results = folders.map(folder => folderResults.get(folder)!);
+
+    return {
+        folders,
+        components: results.flatMap(result => result.components),
+        unusedComponents: results.flatMap(result => result.unusedComponents),
+        unusedSymbols: results.flatMap(result => result.unusedSymbols),
+        islands: results.flatMap(result => result.islands),
+        ignoredComponents: results.flatMap(result => result.ignoredComponents),
+        dependencyGraph: Object.assign({}, ...results.map(result => result.dependencyGraph))
+    };
+}
+
+/**
+ * Applies file changes collected by the watcher to the index of the
+ * folder each file belongs to
+ */
+async function applyPendingChanges(): Promise<void> {
+    if (projectIndexes.size === 0 || !watcher.hasPendingChanges()) {
+        return;
+    }
+
+    const changes = watcher.takeChanges();
+
+    // A deleted folder is reported once, not for each file inside it
+    for (const folderPath of changes.deletedFolders) {
+        for (const index of projectIndexes.values()) {
+            changes.deleted.push(...index.getFilesUnder(folderPath).filter(f => !changes.deleted.includes(f)));
         }
     }
+    forgetResults(changes.deleted);
+    if (changes.requiresFullScan) {
+        log('Configuration file changed or folder created, the next refresh runs a full scan');
+        projectIndexes.clear();
+        codeLenses.refresh();
+        return;
+    }
 
-    return contentMap;
+    try {
+        const started = Date.now();
+        for (const index of projectIndexes.values()) {
+            const changed = changes.changed.filter(filePath => index.contains(filePath));
+            const deleted = changes.deleted.filter(filePath => index.contains(filePath));
+            if (changed.length > 0 || deleted.length > 0) {
+                await index.update(changed, deleted);
+            }
+        }
+
+        // Imports into other folders may have changed
+        if (projectIndexes.size > 1) {
+            linkProjectIndexes([...projectIndexes.values()], readCrossFolderSetting());
+        }
+
+        log(`Updated index for ${changes.changed.length} changed and ${changes.deleted.length} deleted file(s) in ${Date.now() - started} ms`);
+        codeLenses.refresh();
+        await saveFileIndex();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error updating index, the next refresh runs a full scan: ${errorMessage}`);
+        projectIndexes.clear();
+        codeLenses.refresh();
+    }
+}
+
+/**
+ * Writes the per-file index to workspace storage. A failed write only
+ * means the next session parses more files.
+ */
+async function saveFileIndex(): Promise<void> {
+    try {
+        await (await fileIndex).save();
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error saving file index: ${errorMessage}`);
+    }
+}
+
+/**
+ * Forgets all stored parse results, so the next scan reads and parses
+ * every file again
+ */
+async function clearIndex(): Promise<void> {
+    await indexUpdate;
+
+    try {
+        const index = await fileIndex;
+        const count = index.size;
+        index.clear();
+        await index.save();
+
+        clearCache();
+        projectIndexes.clear();
+        watcher.takeChanges();
+        codeLenses.refresh();
+
+        log(`Cleared file index (${count} file(s))`);
+        vscode.window.showInformationMessage(
+            'Cleared the component index. The next scan parses every file again.'
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error clearing file index: ${errorMessage}`);
+        vscode.window.showErrorMessage(
+            `Failed to clear the index: ${errorMessage}`
+        );
+    }
 }
 
 /**
- * Deletes a component file
+ * Re-analyzes the indexes after applying pending file changes, falling
+ * back to a full scan of the last scanned folders when an index is missing
  */
-async function deleteComponent(componentPath: string): Promise<void> {
+async function refreshResults(context: vscode.ExtensionContext): Promise<void> {
+    indexUpdate = indexUpdate.then(applyPendingChanges);
+    await indexUpdate;
+
+    if (!lastScan || lastScan.folders.length === 0 || lastScan.folders.some(folder => !projectIndexes.has(folder))) {
+        await scanForUnusedComponents(context, lastScan?.mode, lastScan?.folders);
+        return;
+    }
+
     try {
-        const uri = vscode.Uri.file(componentPath);
-        const fileName = path.basename(componentPath);
-
-        // Show confirmation
-        const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to delete "${fileName}"?`,
-            { modal: true },
-            'Delete',
-            'Cancel'
+        const started = Date.now();
+        for (const folder of lastScan.folders) {
+            folderResults.set(folder, await projectIndexes.get(folder)!.analyze({ report: () => undefined, log }));
+        }
+
+        const combined = getCombinedResults();
+        lastScan = { ...lastScan, folders: combined.folders, unusedComponents: combined.unusedComponents };
+        await diagnostics.update(combined.unusedComponents, lastScan.mode);
+        componentsTree.update(combined.unusedComponents);
+
+        UnusedComponentsPanel.show(
+            context,
+            combined.unusedComponents,
+            combined.unusedSymbols,
+            combined.islands,
+            combined.ignoredComponents,
+            combined.dependencyGraph
         );
 
-        if (confirm !== 'Delete') {
-            return;
+        const elapsed = Date.now() - started;
+        log(`Refreshed results in ${elapsed} ms`);
+        vscode.window.setStatusBarMessage(
+            `$(check) ${combined.unusedComponents.length} unused component(s), refreshed in ${elapsed} ms`,
+            3000
+        );
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error refreshing results: ${errorMessage}`);
+        vscode.window.showErrorMessage(
+            `Failed to refresh results: ${errorMessage}`
+        );
+    }
+}
+
+/**
+ * Exports the latest scan results to a report file
+ */
+async function exportReport(context: vscode.ExtensionContext): Promise<void> {
+    if (!lastScan) {
+        vscode.window.showWarningMessage(
+            'No scan results to export. Run "Find Unused Components" first.'
+        );
+        return;
+    }
+
+    const formats: Array<vscode.QuickPickItem & { format: ReportFormat }> = [
+        { label: 'JSON', description: 'Full results for scripts and diffing', format: 'json' },
+        { label: 'CSV', description: 'One row per component for spreadsheets', format: 'csv' },
+        { label: 'Markdown', description: 'Table for tickets and pull requests', format: 'markdown' },
+        { label: 'SARIF 2.1', description: 'For code-scanning dashboards', format: 'sarif' }
+    ];
+
+    const picked = await vscode.window.showQuickPick(formats, {
+        placeHolder: 'Select a report format'
+    });
+    if (!picked) {
+        return;
+    }
+
+    const extension = REPORT_FILE_EXTENSIONS[picked.format];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(lastScan.folders[0] || '', `unused-components.${extension}`)),
+        filters: { [picked.label]: [extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        // Skip components deleted since the scan
+        const components = lastScan.unusedComponents.filter(c => fs.existsSync(c.filePath));
+        const report = formatReport(components, picked.format, {
+            projectRoot: getCommonRoot(lastScan.folders),
+            toolVersion: context.extension.packageJSON.version
+        });
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(report, 'utf8'));
+        log(`Exported ${components.length} component(s) to ${target.fsPath}`);
+
+        const action = await vscode.window.showInformationMessage(
+            `Exported report to ${path.basename(target.fsPath)}`,
+            'Open'
+        );
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error exporting report: ${errorMessage}`);
+        vscode.window.showErrorMessage(
+            `Failed to export report: ${errorMessage}`
+        );
+    }
+}
+
+/**
+ * Gets the deepest folder containing all given folders, so report paths
+ * stay unambiguous across workspace folders
+ */
+function getCommonRoot(folders: string[]): string {
+    if (folders.length === 0) {
+        return '';
+    }
+
+    let common = folders[0];
+    for (const folder of folders.slice(1)) {
+        while (path.relative(common, folder).startsWith('..')) {
+            const parent = path.dirname(common);
+            if (parent === common) {
+                return common;
+            }
+            common = parent;
+        }
+    }
+    return common;
+}
+
+/**
+ * Confirms and deletes components with their sidecar files, offering to
+ * delete their stories too, and returns the removed files. The sidebar,
+ * quick fixes and the panel all delete through here.
+ */
+async function deleteComponents(componentPaths: string[]): Promise<string[]> {
+    if (componentPaths.length === 0) {
+        return [];
+    }
+
+    try {
+        const components = (lastScan?.unusedComponents || []).filter(c => componentPaths.includes(c.filePath));
+        const single = componentPaths.length === 1;
+        const name = components[0]?.componentName || path.basename(componentPaths[0]);
+
+        let confirmMessage: string;
+        if (single) {
+            confirmMessage = components[0]?.isSafe === false
+                ? `Warning: "${name}" may have dependencies. Are you sure you want to delete it?`
+                : `Are you sure you want to delete "${name}"?`;
+        } else {
+            const totalSize = components.reduce((sum, c) => sum + c.size, 0);
+            confirmMessage = `Delete ${componentPaths.length} selected component(s)? This will free up ${formatFileSize(totalSize)}.`;
+        }
+
+        // Show confirmation, offering to delete the components' stories too
+        const relatedFiles = await confirmRemoval(components, confirmMessage, 'Delete');
+        if (!relatedFiles) {
+            return [];
+        }
+
+        // Move the files, their sidecars and the chosen stories to the quarantine or the trash as one batch
+        const { removed, failed } = await removeFiles(
+            [...componentPaths, ...relatedFiles],
+            single ? `Delete ${name}` : `Delete ${componentPaths.length} component(s)`
+        );
+        for (const failure of failed) {
+            log(`Failed to delete ${failure.filePath}: ${failure.error}`);
         }
+        forgetResults(removed);
 
-        // Delete the file
-        await vscode.workspace.fs.delete(uri);
-        log(`Deleted component: ${componentPath}`);
+        const deletedPaths = componentPaths.filter(componentPath => removed.includes(componentPath));
+        deletedPaths.forEach(componentPath => log(`Deleted component: ${componentPath}`));
 
-        vscode.window.showInformationMessage(`Deleted: ${fileName}`);
+        if (single) {
+            if (deletedPaths.length === 0) {
+                throw new Error(failed.find(f => f.filePath === componentPaths[0])?.error || 'Unknown error');
+            }
+            vscode.window.showInformationMessage(`Deleted: ${name}`);
+            return removed;
+        }
 
-        // Refresh the panel if it exists
-        // The panel will handle refresh through its own message handler
+        if (deletedPaths.length > 0) {
+            const sizeDeleted = components
+                .filter(c => deletedPaths.includes(c.filePath))
+                .reduce((sum, c) => sum + c.size, 0);
+            const sizeInKB = sizeDeleted / 1024;
+            const performanceImpact = sizeInKB > 100
+                ? 'Significant performance improvement'
+                : sizeInKB > 50
+                ? 'Good performance improvement'
+                : 'Minor performance improvement';
+
+            vscode.window.showInformationMessage(
+                `✅ Deleted ${deletedPaths.length} component(s) | 💾 Saved ${formatFileSize(sizeDeleted)} | 🚀 ${performanceImpact}`
+            );
+        }
+        if (deletedPaths.length < componentPaths.length) {
+            vscode.window.showWarningMessage(
+                `Failed to delete ${componentPaths.length - deletedPaths.length} component(s)`
+            );
+        }
+        return removed;
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         log(`Error deleting component: ${errorMessage}`);
         vscode.window.showErrorMessage(
             `Failed to delete component: ${errorMessage}`
         );
+        return [];
     }
 }
 
+/**
+ * Removes components with `git rm` on a new branch and commits the
+ * removal, so the cleanup can be reviewed on its own. Asks for the
+ * components when none are given. Resolves with the removed files.
+ */
+async function pruneToBranch(componentPaths?: string[]): Promise<string[]> {
+    try {
+        const available = (lastScan?.unusedComponents || []).filter(c => fs.existsSync(c.filePath));
+        if (available.length === 0) {
+            vscode.window.showInformationMessage('No unused components to prune. Run a scan first.');
+            return [];
+        }
+
+        const components = componentPaths
+            ? available.filter(c => componentPaths.includes(c.filePath))
+            : await pickComponents(available);
+        if (!components || components.length === 0) {
+            return [];
+        }
+
+        const root = await findRepositoryRoot(path.dirname(components[0].filePath));
+        if (!root) {
+            vscode.window.showErrorMessage('The selected components are not in a git repository');
+            return [];
+        }
+        if (components.some(c => path.relative(root, c.filePath).startsWith('..'))) {
+            vscode.window.showErrorMessage('The selected components belong to more than one git repository');
+            return [];
+        }
+        if (!(await isWorkingTreeClean(root))) {
+            vscode.window.showErrorMessage(
+                'Prune to Branch needs a clean working tree. Commit or stash your changes first.'
+            );
+            return [];
+        }
+
+        const totalSize = components.reduce((sum, c) => sum + c.size, 0);
+        const relatedFiles = await confirmRemoval(
+            components,
+            `Remove ${components.length} component(s) (${formatFileSize(totalSize)}) on a new branch and commit the removal?`,
+            'Prune'
+        );
+        if (!relatedFiles) {
+            return [];
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        const branch = (await vscode.window.showInputBox({
+            prompt: 'Name of the branch to commit the removal to',
+            value: `prune/unused-components-${date}`,
+            validateInput: name => validateBranchName(root, name.trim())
+        }))?.trim();
+        if (!branch) {
+            return [];
+        }
+
+        const filePaths = [...components.map(c => c.filePath), ...relatedFiles];
+        const previousRef = await getCurrentRef(root);
+        await createBranch(root, branch);
+        try {
+            await removeTrackedFiles(root, filePaths);
+            await commit(root, formatPruneCommitMessage(root, components, relatedFiles));
+        } catch (error) {
+            await abandonBranch(root, previousRef, branch);
+            throw error;
+        }
+
+        forgetResults(filePaths);
+        log(`Pruned ${components.length} component(s) to branch ${branch}`);
+        vscode.window.showInformationMessage(
+            `Committed the removal of ${components.length} component(s) to branch "${branch}"`
+        );
+        return filePaths;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error pruning to branch: ${errorMessage}`);
+        vscode.window.showErrorMessage(`Failed to prune to branch: ${errorMessage}`);
+        return [];
+    }
+}
+
+/**
+ * Lets the user pick unused components, with the safe ones preselected
+ */
+async function pickComponents(components: UnusedComponentInfo[]): Promise<UnusedComponentInfo[] | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        components.map(component => ({
+            label: component.componentName,
+            description: vscode.workspace.asRelativePath(component.filePath),
+            picked: component.isSafe === true,
+            component
+        })),
+        { placeHolder: 'Select the components to prune', canPickMany: true, matchOnDescription: true }
+    );
+    return picked?.map(item => item.component);
+}
+
+/**
+ * Lets the user pick a quarantined deletion batch and moves its files back
+ */
+async function restoreDeletedComponents(): Promise<void> {
+    try {
+        const batches = await listDeletionBatches();
+        if (batches.length === 0) {
+            vscode.window.showInformationMessage('No deleted components to restore');
+            return;
+        }
+
+        const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
+        const picked = await vscode.window.showQuickPick(
+            batches.map(batch => ({
+                label: batch.label,
+                description: [
+                    new Date(batch.createdAt).toLocaleString(),
+                    multiRoot ? batch.folder.name : ''
+                ].filter(Boolean).join(' · '),
+                detail: batch.files.map(file => file.originalPath).join(', '),
+                batch
+            })),
+            { placeHolder: 'Select deleted components to restore', matchOnDetail: true }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const { restored, conflicts, failed } = await restoreBatch(picked.batch);
+        log(`Restored ${restored.length} file(s) from deletion batch ${picked.batch.id}`);
+
+        if (restored.length > 0) {
+            vscode.window.showInformationMessage(`Restored ${restored.length} file(s)`);
+        }
+        if (conflicts.length > 0) {
+            vscode.window.showWarningMessage(
+                `Kept ${conflicts.length} file(s) in quarantine because a file exists at their original path: ` +
+                    conflicts.map(filePath => path.basename(filePath)).join(', ')
+            );
+        }
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Failed to restore ${failed.length} file(s)`);
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error restoring deleted components: ${errorMessage}`);
+        vscode.window.showErrorMessage(`Failed to restore deleted components: ${errorMessage}`);
+    }
+}
+
+/**
+ * Gets the file a command targets: a path from a quick fix or webview,
+ * a sidebar item, or else the active editor's file
+ */
+function getComponentPath(target?: string | ComponentNode): string | undefined {
+    if (typeof target === 'string') {
+        return target;
+    }
+    return target?.component.filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+}
+
+/**
+ * Removes deleted or ignored files from the Problems view and the sidebar
+ */
+function forgetResults(filePaths: string[]): void {
+    diagnostics.remove(filePaths);
+    componentsTree.remove(filePaths);
+}
+
+/**
+ * Opens a component file at its declaration
+ */
+async function openComponent(node: ComponentNode): Promise<void> {
+    const { component } = node;
+    const line = getDeclarationSymbol(component.componentName, component.symbols)?.line ?? 0;
+
+    try {
+        const position = new vscode.Position(line, 0);
+        await vscode.window.showTextDocument(vscode.Uri.file(component.filePath), {
+            selection: new vscode.Range(position, position)
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(
+            `Failed to open file: ${errorMessage}`
+        );
+    }
+}
+
+/**
+ * Gets the index of the workspace folder a file belongs to
+ */
+function getProjectIndexFor(filePath: string): ProjectIndex | undefined {
+    return [...projectIndexes.values()].find(index => index.contains(filePath));
+}
+
+/**
+ * Adds a `// pruner-ignore` annotation to a component file, so later
+ * scans list it as ignored
+ */
+async function ignoreComponent(componentPath: string): Promise<void> {
+    try {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(componentPath));
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, new vscode.Position(0, 0), '// pruner-ignore\n');
+
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage(`Failed to ignore ${path.basename(componentPath)}`);
+            return;
+        }
+        await document.save();
+
+        forgetResults([componentPath]);
+        log(`Ignored component: ${componentPath}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        log(`Error ignoring component: ${errorMessage}`);
+        vscode.window.showErrorMessage(
+            `Failed to ignore component: ${errorMessage}`
+        );
+    }
+}
+
+/**
+ * Shows the files importing a component in a references peek
+ */
+async function showImporters(componentPath: string): Promise<void> {
+    const index = getProjectIndexFor(componentPath);
+    const result = index && folderResults.get(index.getProjectRoot());
+    if (!result) {
+        vscode.window.showWarningMessage(
+            'No scan results for this file. Run "Find Unused Components" first.'
+        );
+        return;
+    }
+
+    const importers = result.analyzer.getImporters(componentPath);
+    if (importers.length === 0) {
+        vscode.window.showInformationMessage(`No files import ${path.basename(componentPath)}.`);
+        return;
+    }
+
+    const uri = vscode.Uri.file(componentPath);
+    const editor = vscode.window.activeTextEditor;
+    const position = editor && editor.document.uri.fsPath === componentPath
+        ? editor.selection.active
+        : new vscode.Position(0, 0);
+
+    await vscode.commands.executeCommand(
+        'editor.action.showReferences',
+        uri,
+        position,
+        await getImporterLocations(componentPath, importers)
+    );
+}
+
 /**
  * Logs a message to the output channel
  */
@@ -0,0 +1,214 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { ComponentSymbol, ParsedImport, StoryMeta } from './parser';
+import { IgnoreInfo } from './ignore';
+
+/**
+ * Bumped whenever the stored entry format or the parser output changes,
+ * so indexes written by older versions are discarded
+ */
+const INDEX_FORMAT_VERSION = 1;
+
+/**
+ * What was extracted from one file, keyed by its mtime, size and content
+ * hash. Fields stay undefined until the phase that fills them has run.
+ */
+export interface FileIndexEntry {
+    mtime: number;
+    size: number;
+    hash: string;
+    isComponent?: boolean;
+    symbols?: ComponentSymbol[];
+    annotation?: IgnoreInfo | null;
+    imports?: ParsedImport[];
+    storyMeta?: StoryMeta | null;
+}
+
+/**
+ * Modification time and size of a file, taken before its content is read
+ */
+export interface FileStamp {
+    mtime: number;
+    size: number;
+}
+
+/**
+ * Extracted data stored for a file
+ */
+export type FileIndexData = Omit<FileIndexEntry, 'mtime' | 'size' | 'hash'>;
+
+/**
+ * Layout of the index file on disk
+ */
+interface StoredIndex {
+    version: number;
+    entries: Record<string, FileIndexEntry>;
+}
+
+/**
+ * Hashes file content
+ */
+export function hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * FileIndex class persisting per-file parse results between sessions so
+ * only files that changed since the last run are parsed again
+ */
+export class FileIndex {
+    private storageFile: string | undefined;
+    private entries: Map<string, FileIndexEntry> = new Map();
+    private dirty = false;
+
+    constructor(storageFile?: string) {
+        this.storageFile = storageFile;
+    }
+
+    /**
+     * Loads an index from disk. A missing, unreadable or outdated file
+     * gives an empty index.
+     */
+    static async load(storageFile: string): Promise<FileIndex> {
+        const index = new FileIndex(storageFile);
+
+        try {
+            const stored: StoredIndex = JSON.parse(await fs.promises.readFile(storageFile, 'utf-8'));
+            if (stored.version === INDEX_FORMAT_VERSION && stored.entries) {
+                index.entries = new Map(Object.entries(stored.entries));
+            }
+        } catch {
+            // No index yet or a corrupt one, start empty
+        }
+
+        return index;
+    }
+
+    /**
+     * Gets the number of indexed files
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Gets the entry for a file if it still matches the file on disk.
+     * A changed mtime or size only invalidates the entry when the content
+     * hash differs too (e.g. after a checkout that touched the file).
+     */
+    getValid(filePath: string): FileIndexEntry | undefined {
+        const entry = this.entries.get(filePath);
+        if (!entry) {
+            return undefined;
+        }
+
+        try {
+            const stats = fs.statSync(filePath);
+            if (stats.mtimeMs === entry.mtime && stats.size === entry.size) {
+                return entry;
+            }
+
+            if (hashContent(fs.readFileSync(filePath, 'utf-8')) === entry.hash) {
+                entry.mtime = stats.mtimeMs;
+                entry.size = stats.size;
+                this.dirty = true;
+                return entry;
+            }
+        } catch {
+            // Deleted or unreadable
+        }
+
+        this.entries.delete(filePath);
+        this.dirty = true;
+        return undefined;
+    }
+
+    /**
+     * Takes the stamp to record a file with. Call it before reading the
+     * file, so an edit made during the read leaves the entry stale instead
+     * of pairing old content with the new mtime.
+     */
+    stamp(filePath: string): FileStamp | undefined {
+        try {
+            const stats = fs.statSync(filePath);
+            return { mtime: stats.mtimeMs, size: stats.size };
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Stores extracted data for a file whose content had the given hash
+     * (see hashContent). Data recorded for the same content by another
+     * phase is kept.
+     */
+    record(filePath: string, stamp: FileStamp | undefined, hash: string, data: FileIndexData): void {
+        if (!stamp) {
+            return;
+        }
+
+        const existing = this.entries.get(filePath);
+        const base = existing && existing.hash === hash ? existing : undefined;
+
+        this.entries.set(filePath, {
+            ...base,
+            ...data,
+            mtime: stamp.mtime,
+            size: stamp.size,
+            hash
+        });
+        this.dirty = true;
+    }
+
+    /**
+     * Forgets the files inside a folder that a full scan of it did not
+     * see, i.e. files deleted, renamed or excluded since they were recorded
+     */
+    retainScanned(folderPath: string, scannedFiles: Iterable<string>): void {
+        const prefix = folderPath.endsWith(path.sep) ? folderPath : folderPath + path.sep;
+        const scanned = new Set(scannedFiles);
+
+        for (const filePath of this.entries.keys()) {
+            if (filePath.startsWith(prefix) && !scanned.has(filePath)) {
+                this.entries.delete(filePath);
+                this.dirty = true;
+            }
+        }
+    }
+
+    /**
+     * Forgets a file
+     */
+    delete(filePath: string): void {
+        if (this.entries.delete(filePath)) {
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * Forgets every file
+     */
+    clear(): void {
+        this.entries.clear();
+        this.dirty = true;
+    }
+
+    /**
+     * Writes the index to disk if anything changed since the last save
+     */
+    async save(): Promise<void> {
+        if (!this.storageFile || !this.dirty) {
+            return;
+        }
+
+        const stored: StoredIndex = {
+            version: INDEX_FORMAT_VERSION,
+            entries: Object.fromEntries(this.entries)
+        };
+
+        await fs.promises.mkdir(path.dirname(this.storageFile), { recursive: true });
+        await fs.promises.writeFile(this.storageFile, JSON.stringify(stored), 'utf-8');
+        this.dirty = false;
+    }
+}
@@ -0,0 +1,130 @@
+import * as path from 'path';
+import { ProjectHost, SKIPPED_DIRECTORIES } from './host';
+import { matchesGlob, matchesPatternList } from './glob';
+
+/**
+ * Options selecting the project files every scan phase works on.
+ * Patterns are relative to the root folder; `!pattern` negates an
+ * earlier match. `maxFiles` optionally caps the files collected per root
+ * folder (unlimited by default) and `projectFiles` passes a set that was
+ * already discovered, so later phases skip the file system walk.
+ */
+export interface FileSetOptions {
+    includePatterns?: string[];
+    excludePatterns?: string[];
+    maxFiles?: number;
+    projectFiles?: string[];
+}
+
+/**
+ * Files scanned when no include patterns are configured
+ */
+export const DEFAULT_INCLUDE_PATTERNS = ['**/*.{js,jsx,ts,tsx}'];
+
+/**
+ * Files the parser can read
+ */
+const SOURCE_FILE_PATTERN = /\.(js|jsx|ts|tsx)$/;
+
+/**
+ * Checks whether a file belongs to the project file set
+ */
+export function isIncludedFile(filePath: string, root: string, options?: FileSetOptions): boolean {
+    const relativePath = path.relative(root, filePath);
+    if (relativePath.split(path.sep).some(part => SKIPPED_DIRECTORIES.includes(part))) {
+        return false;
+    }
+
+    const includePatterns = options?.includePatterns?.length ? options.includePatterns : DEFAULT_INCLUDE_PATTERNS;
+    return matchesPatternList(relativePath, includePatterns) &&
+        !matchesPatternList(relativePath, options?.excludePatterns || []);
+}
+
+/**
+ * Warns that file discovery stopped at the `maxFiles` limit
+ */
+export function warnFileLimit(host: ProjectHost, roots: string[], maxFiles: number): void {
+    const names = roots.map(root => path.basename(root)).join(', ');
+    host.showWarning(
+        `Stopped collecting files in ${names} after ${maxFiles} files (maxFiles limit). Files past the limit are not analyzed, so components imported only from them may be reported as unused.`
+    );
+}
+
+/**
+ * Collects every file under a root folder matching `include` and not
+ * `exclude` from the host's paged listing, stopping at `maxFiles` when
+ * given. `accept` filters files before they count against the limit.
+ */
+export async function collectFiles(
+    host: ProjectHost,
+    root: string,
+    include: string,
+    exclude: string | undefined,
+    maxFiles?: number,
+    accept: (filePath: string) => boolean = () => true
+): Promise<{ files: string[]; limitReached: boolean }> {
+    const files: string[] = [];
+    const limit = maxFiles ?? Number.POSITIVE_INFINITY;
+
+    for await (const page of host.streamFiles(root, include, exclude)) {
+        for (const file of page) {
+            if (!accept(file)) {
+                continue;
+            }
+            if (files.length >= limit) {
+                return { files, limitReached: true };
+            }
+            files.push(file);
+        }
+    }
+
+    return { files, limitReached: false };
+}
+
+/**
+ * Finds the source files in every root folder that belong to the file set.
+ * Each root is walked once and every file is tested against all patterns.
+ * `search` narrows the walk (for example to index files) without
+ * widening the set. Warns when a root folder reaches `maxFiles`.
+ */
+export async function findProjectFiles(
+    host: ProjectHost,
+    options?: FileSetOptions,
+    search?: string
+): Promise<string[]> {
+    if (options?.projectFiles) {
+        return search ? options.projectFiles.filter(file => matchesSearch(host, file, search)) : options.projectFiles;
+    }
+
+    // Only source files are accepted, so the default pattern covers every include pattern
+    const walkPattern = search ?? DEFAULT_INCLUDE_PATTERNS[0];
+    const files = new Set<string>();
+    const limitedRoots: string[] = [];
+
+    for (const rootFolder of host.getRootFolders()) {
+        const accept = (file: string): boolean => SOURCE_FILE_PATTERN.test(file) &&
+            isIncludedFile(file, rootFolder, options);
+        const found = await collectFiles(host, rootFolder, walkPattern, '**/node_modules/**', options?.maxFiles, accept);
+
+        found.files.forEach(file => files.add(file));
+        if (found.limitReached) {
+            limitedRoots.push(rootFolder);
+        }
+    }
+
+    if (limitedRoots.length > 0 && options?.maxFiles) {
+        warnFileLimit(host, limitedRoots, options.maxFiles);
+    }
+
+    return [...files];
+}
+
+/**
+ * Checks whether a discovered file matches a root-relative search glob
+ */
+function matchesSearch(host: ProjectHost, filePath: string, search: string): boolean {
+    return host.getRootFolders().some(root => {
+        const relativePath = path.relative(root, filePath);
+        return !relativePath.startsWith('..') && matchesGlob(relativePath, [search]);
+    });
+}
@@ -0,0 +1,194 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { isJsonObject } from './resolver';
+
+/**
+ * Frameworks whose routing loads files by convention instead of imports
+ */
+export type Framework = 'next' | 'remix' | 'expo-router' | 'gatsby';
+
+/**
+ * Display names used in warnings
+ */
+export const FRAMEWORK_NAMES: { [framework in Framework]: string } = {
+    'next': 'Next.js',
+    'remix': 'Remix',
+    'expo-router': 'Expo Router',
+    'gatsby': 'Gatsby'
+};
+
+/**
+ * Packages that identify each framework in package.json dependencies
+ */
+const FRAMEWORK_PACKAGES: { [framework in Framework]: string[] } = {
+    'next': ['next'],
+    'remix': ['@remix-run/react', '@remix-run/dev', '@remix-run/node', '@react-router/dev'],
+    'expo-router': ['expo-router'],
+    'gatsby': ['gatsby']
+};
+
+/**
+ * Files whose presence identifies each framework from the folder layout
+ */
+const FRAMEWORK_MARKERS: { [framework in Framework]: string[] } = {
+    'next': ['next.config.js', 'next.config.mjs', 'next.config.ts'],
+    'remix': ['remix.config.js', 'remix.config.mjs', 'react-router.config.ts', 'app/root.tsx', 'app/root.jsx'],
+    'expo-router': ['app/_layout.tsx', 'app/_layout.jsx', 'app/_layout.js', 'src/app/_layout.tsx'],
+    'gatsby': ['gatsby-config.js', 'gatsby-config.ts', 'gatsby-config.mjs']
+};
+
+const EXT = '\\.(js|jsx|ts|tsx|mjs|cjs)$';
+
+/**
+ * Convention-based files per framework, as regexes over the path relative
+ * to the package root (posix separators)
+ */
+const CONVENTION_PATTERNS: { [framework in Framework]: RegExp[] } = {
+    'next': [
+        // Pages router: every file under pages/ is a route or _app/_document
+        new RegExp(`^(src/)?pages/.+${EXT}`),
+        // App router special files
+        new RegExp(`^(src/)?app/(.+/)?(page|layout|template|loading|error|global-error|not-found|default|route|opengraph-image|twitter-image|icon|apple-icon|sitemap|robots|manifest)${EXT}`),
+        new RegExp(`^(src/)?(middleware|instrumentation)${EXT}`)
+    ],
+    'remix': [
+        new RegExp(`^app/(root|entry\\.client|entry\\.server|routes)${EXT}`),
+        new RegExp(`^app/routes/.+${EXT}`)
+    ],
+    'expo-router': [
+        // Every file inside app/ is a screen, layout or API route
+        new RegExp(`^(src/)?app/.+${EXT}`)
+    ],
+    'gatsby': [
+        new RegExp(`^src/(pages|templates|api)/.+${EXT}`),
+        new RegExp(`^src/html${EXT}`),
+        new RegExp(`^gatsby-(browser|ssr|node|config)${EXT}`)
+    ]
+};
+
+/**
+ * A package root with the frameworks detected in it
+ */
+interface FrameworkRoot {
+    directory: string;
+    frameworks: Framework[];
+}
+
+/**
+ * Reads dependency names from a package.json
+ */
+function readDependencies(packageJsonPath: string): string[] {
+    try {
+        const manifest: unknown = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        if (!isJsonObject(manifest)) {
+            return [];
+        }
+
+        return ['dependencies', 'devDependencies', 'peerDependencies']
+            .map(field => manifest[field])
+            .flatMap(dependencies => isJsonObject(dependencies) ? Object.keys(dependencies) : []);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Detects the frameworks used by a package from its dependencies and layout
+ */
+export function detectFrameworks(packageRoot: string): Framework[] {
+    const dependencies = readDependencies(path.join(packageRoot, 'package.json'));
+    const frameworks: Framework[] = [];
+
+    for (const framework of Object.keys(FRAMEWORK_PACKAGES) as Framework[]) {
+        const hasPackage = FRAMEWORK_PACKAGES[framework].some(pkg => dependencies.includes(pkg));
+        const hasMarker = FRAMEWORK_MARKERS[framework].some(marker =>
+            fs.existsSync(path.join(packageRoot, marker))
+        );
+
+        if (hasPackage || hasMarker) {
+            frameworks.push(framework);
+        }
+    }
+
+    // Expo Router and Remix both use app/; only treat app/ as Expo when expo-router is installed
+    if (frameworks.includes('expo-router') && !dependencies.includes('expo-router') &&
+        (frameworks.includes('remix') || frameworks.includes('next'))) {
+        frameworks.splice(frameworks.indexOf('expo-router'), 1);
+    }
+
+    return frameworks;
+}
+
+/**
+ * FrameworkConventions class for recognising files that a framework loads
+ * by convention (routes, layouts, _app...) and that therefore act as
+ * implicit roots even though nothing imports them
+ */
+export class FrameworkConventions {
+    private projectRoot: string;
+    private rootsByDir: Map<string, FrameworkRoot | null> = new Map();
+
+    constructor(projectRoot: string) {
+        this.projectRoot = projectRoot;
+    }
+
+    /**
+     * Gets the framework that loads a file by convention, if any
+     */
+    getFrameworkForFile(filePath: string): Framework | undefined {
+        const root = this.getFrameworkRoot(path.dirname(filePath));
+        if (!root) {
+            return undefined;
+        }
+
+        const relativePath = path.relative(root.directory, filePath).replace(/\\/g, '/');
+        if (relativePath.startsWith('..') || relativePath.split('/').includes('node_modules')) {
+            return undefined;
+        }
+
+        return root.frameworks.find(framework =>
+            CONVENTION_PATTERNS[framework].some(pattern => pattern.test(relativePath))
+        );
+    }
+
+    /**
+     * Checks whether a file is loaded by a framework convention
+     */
+    isImplicitRoot(filePath: string): boolean {
+        return this.getFrameworkForFile(filePath) !== undefined;
+    }
+
+    /**
+     * Clears cached detection results
+     */
+    clearCache(): void {
+        this.rootsByDir.clear();
+    }
+
+    /**
+     * Finds the nearest package root (directory with package.json) at or
+     * below the project root and the frameworks it uses
+     */
+    private getFrameworkRoot(dir: string): FrameworkRoot | null {
+        if (this.rootsByDir.has(dir)) {
+            return this.rootsByDir.get(dir)!;
+        }
+
+        let result: FrameworkRoot | null = null;
+        const root = path.resolve(this.projectRoot);
+
+        if (fs.existsSync(path.join(dir, 'package.json'))) {
+            const frameworks = detectFrameworks(dir);
+            // A package without frameworks may still live inside one (rare), so keep looking up
+            result = frameworks.length > 0 ? { directory: dir, frameworks } : null;
+        }
+
+        const parent = path.dirname(dir);
+        if (!result && dir !== root && parent !== dir && dir.startsWith(root)) {
+            result = this.getFrameworkRoot(parent);
+        }
+
+        this.rootsByDir.set(dir, result);
+        return result;
+    }
+}
@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { UnusedComponentInfo } from './core';
+import { formatFileSize } from './report';
+
+/**
+ * GitError class for failed git invocations, carrying git's own message
+ */
+export class GitError extends Error {
+    readonly gitMissing: boolean;
+
+    constructor(message: string, gitMissing = false) {
+        super(message);
+        this.gitMissing = gitMissing;
+    }
+}
+
+/**
+ * Runs git in a directory and resolves with its trimmed stdout
+ */
+function runGit(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    reject(new GitError('git was not found on the PATH', true));
+                } else {
+                    reject(new GitError(stderr.trim() || error.message));
+                }
+                return;
+            }
+            resolve(stdout.trim());
+        });
+    });
+}
+
+/**
+ * Gets the root of the git repository containing a directory, or
+ * undefined when it is not inside one
+ */
+export async function findRepositoryRoot(directory: string): Promise<string | undefined> {
+    try {
+        return path.resolve(await runGit(directory, ['rev-parse', '--show-toplevel']));
+    } catch (error) {
+        if (error instanceof GitError && error.gitMissing) {
+            throw error;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Checks whether a repository has no staged, unstaged or untracked changes
+ */
+export async function isWorkingTreeClean(root: string): Promise<boolean> {
+    return (await runGit(root, ['status', '--porcelain'])) === '';
+}
+
+/**
+ * Gets the checked out branch, or the commit on a detached HEAD
+ */
+export async function getCurrentRef(root: string): Promise<string> {
+    const branch = await runGit(root, ['rev-parse', '--abbrev-ref', 'HEAD']);
+    return branch === 'HEAD' ? runGit(root, ['rev-parse', 'HEAD']) : branch;
+}
+
+/**
+ * Checks whether a name is a valid branch name that is not taken yet
+ */
+export async function validateBranchName(root: string, name: string): Promise<string | undefined> {
+    try {
+        await runGit(root, ['check-ref-format', '--branch', name]);
+    } catch {
+        return `"${name}" is not a valid branch name`;
+    }
+
+    try {
+        await runGit(root, ['rev-parse', '--verify', '--quiet', `refs/heads/${name}`]);
+        return `Branch "${name}" already exists`;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Creates a branch from HEAD and checks it out
+ */
+export async function createBranch(root: string, name: string): Promise<void> {
+    await runGit(root, ['checkout', '-b', name]);
+}
+
+/**
+ * Removes files from the index and the working tree
+ */
+export async function removeTrackedFiles(root: string, filePaths: string[]): Promise<void> {
+    await runGit(root, ['rm', '--quiet', '--', ...filePaths.map(filePath => path.relative(root, filePath))]);
+}
+
+/**
+ * Commits the staged changes
+ */
+export async function commit(root: string, message: string): Promise<void> {
+    await runGit(root, ['commit', '--quiet', '-m', message]);
+}
+
+/**
+ * Throws away the working tree changes, checks out a branch again and
+ * deletes the branch created for a failed prune
+ */
+export async function abandonBranch(root: string, previousRef: string, branch: string): Promise<void> {
+    await runGit(root, ['reset', '--quiet', '--hard', 'HEAD']);
+    await runGit(root, ['checkout', '--quiet', previousRef]);
+    await runGit(root, ['branch', '-D', branch]);
+}
+
+/**
+ * Formats the commit message of a prune: a summary line, then each
+ * removed component with its path and size, then the sidecar and story
+ * files removed with them
+ */
+export function formatPruneCommitMessage(
+    root: string,
+    components: UnusedComponentInfo[],
+    relatedFiles: string[] = []
+): string {
+    const totalSize = components.reduce((sum, component) => sum + component.size, 0);
+    const toRelative = (filePath: string): string => path.relative(root, filePath).replace(/\\/g, '/');
+    const lines = [
+        `Remove ${components.length} unused component${components.length === 1 ? '' : 's'} (${formatFileSize(totalSize)})`,
+        '',
+        ...[...components]
+            .sort((a, b) => a.filePath.localeCompare(b.filePath))
+            .map(component =>
+                `- ${component.componentName} (${toRelative(component.filePath)}, ${formatFileSize(component.size)})`
+            )
+    ];
+
+    if (relatedFiles.length > 0) {
+        lines.push('', 'Files removed with them:', ...relatedFiles.map(filePath => `- ${toRelative(filePath)}`));
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,131 @@
+/**
+ * Compiled glob patterns, keyed by pattern text
+ */
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Finds the brace closing the one at `start`, honouring nested braces
+ */
+function findClosingBrace(pattern: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < pattern.length; i++) {
+        if (pattern[i] === '{') {
+            depth++;
+        } else if (pattern[i] === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Splits brace alternatives on top-level commas
+ */
+function splitAlternatives(body: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of body) {
+        if (char === ',' && depth === 0) {
+            alternatives.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        current += char;
+    }
+
+    alternatives.push(current);
+    return alternatives;
+}
+
+/**
+ * Converts a glob pattern to regular expression source.
+ * Supports `**` (any number of folders), `*` (anything but `/`), `?`
+ * and (nested) brace alternatives such as `*.{ts,tsx}`.
+ */
+function globSource(pattern: string): string {
+    let source = '';
+    let i = 0;
+
+    while (i < pattern.length) {
+        const char = pattern[i];
+
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` matches zero or more folders, a trailing `**` matches everything
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 3;
+            } else {
+                source += '.*';
+                i += 2;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+            i++;
+        } else if (char === '?') {
+            source += '[^/]';
+            i++;
+        } else if (char === '{' && findClosingBrace(pattern, i) !== -1) {
+            const end = findClosingBrace(pattern, i);
+            const alternatives = splitAlternatives(pattern.slice(i + 1, end)).map(globSource);
+            source += `(?:${alternatives.join('|')})`;
+            i = end + 1;
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            i++;
+        }
+    }
+
+    return source;
+}
+
+/**
+ * Converts a glob pattern to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const cached = regexCache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    const regex = new RegExp(`^${globSource(pattern)}$`);
+    regexCache.set(pattern, regex);
+    return regex;
+}
+
+/**
+ * Checks whether a posix-style path matches any of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+    const normalized = filePath.replace(/\\/g, '/');
+    return patterns.some(pattern => globToRegExp(pattern).test(normalized));
+}
+
+/**
+ * Checks a path against an ordered pattern list where later patterns win
+ * and `!pattern` re-includes what earlier patterns matched, as in
+ * .gitignore. Patterns without a `/` match a file or folder name at any
+ * depth, so `legacy` matches `src/legacy/Button.tsx` but not
+ * `src/legacy-free/Button.tsx`.
+ */
+export function matchesPatternList(filePath: string, patterns: string[]): boolean {
+    let matched = false;
+
+    for (const raw of patterns) {
+        const negated = raw.startsWith('!');
+        const pattern = (negated ? raw.slice(1) : raw).replace(/^\.\//, '').replace(/\/$/, '');
+        if (!pattern) {
+            continue;
+        }
+
+        const candidates = pattern.includes('/') ? [pattern] : [`**/${pattern}`, `**/${pattern}/**`];
+        if (matchesGlob(filePath, candidates)) {
+            matched = !negated;
+        }
+    }
+
+    return matched;
+}
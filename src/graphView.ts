@@ -0,0 +1,654 @@
+import * as path from 'path';
+import { DependencyGraph } from './analyzer';
+import { UnusedComponentInfo } from './core';
+import { ComponentInfo } from './scanner';
+
+/**
+ * How a graph node is drawn: unused components by safety verdict,
+ * members of orphaned islands, ignored and used components, and
+ * non-component files that import components
+ */
+export type GraphNodeStatus = 'safe' | 'review' | 'unknown' | 'orphaned' | 'ignored' | 'used' | 'file';
+
+/**
+ * A file in the graph
+ */
+export interface GraphNode {
+    filePath: string;
+    label: string;
+    displayPath: string;
+    status: GraphNodeStatus;
+}
+
+/**
+ * Nodes and import edges, as `[importer, imported]` node indexes
+ */
+export interface GraphData {
+    nodes: GraphNode[];
+    edges: Array<[number, number]>;
+}
+
+/**
+ * Inputs for building the graph; `include` drops files outside the
+ * selected folder
+ */
+export interface GraphDataOptions {
+    unusedComponents: UnusedComponentInfo[];
+    ignoredComponents: ComponentInfo[];
+    islands: string[][];
+    include: (filePath: string) => boolean;
+    getDisplayPath: (filePath: string) => string;
+}
+
+/**
+ * Above this many nodes the graph starts with only unused components
+ * and their neighbours, so the layout stays responsive
+ */
+const MAX_FULL_GRAPH_NODES = 1500;
+
+/**
+ * Graph paths use forward slashes, scan results use the platform separator
+ */
+function toGraphPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * Gets a label for a file without a known component name
+ */
+function getFileLabel(filePath: string): string {
+    const stem = path.basename(filePath, path.extname(filePath));
+    return stem === 'index' ? `${path.basename(path.dirname(filePath))}/index` : stem;
+}
+
+/**
+ * Builds graph nodes and edges from the importer map
+ */
+export function buildGraphData(dependencyGraph: DependencyGraph, options: GraphDataOptions): GraphData {
+    const unused = new Map(options.unusedComponents.map(c => [toGraphPath(c.filePath), c]));
+    const ignored = new Map(options.ignoredComponents.map(c => [toGraphPath(c.filePath), c]));
+    const orphaned = new Set(
+        options.islands.filter(island => island.length > 1).flat().map(toGraphPath)
+    );
+
+    const nodes: GraphNode[] = [];
+    const indexes = new Map<string, number>();
+    const addNode = (filePath: string, isComponent: boolean): number | undefined => {
+        const existing = indexes.get(filePath);
+        if (existing !== undefined) {
+            if (isComponent && nodes[existing].status === 'file') {
+                nodes[existing].status = 'used';
+            }
+            return existing;
+        }
+        if (!options.include(filePath)) {
+            return undefined;
+        }
+
+        const unusedComponent = unused.get(filePath);
+        const ignoredComponent = ignored.get(filePath);
+        const status: GraphNodeStatus = orphaned.has(filePath) ? 'orphaned'
+            : unusedComponent ? (unusedComponent.isSafe === true ? 'safe' : unusedComponent.isSafe === false ? 'review' : 'unknown')
+            : ignoredComponent ? 'ignored'
+            : isComponent ? 'used' : 'file';
+
+        indexes.set(filePath, nodes.length);
+        nodes.push({
+            filePath,
+            label: unusedComponent?.componentName || ignoredComponent?.componentName || getFileLabel(filePath),
+            displayPath: options.getDisplayPath(filePath),
+            status
+        });
+        return nodes.length - 1;
+    };
+
+    const edges: Array<[number, number]> = [];
+    for (const [componentPath, importers] of Object.entries(dependencyGraph)) {
+        const target = addNode(toGraphPath(componentPath), true);
+        for (const importer of importers) {
+            const source = addNode(toGraphPath(importer), false);
+            if (target !== undefined && source !== undefined && source !== target) {
+                edges.push([source, target]);
+            }
+        }
+    }
+
+    return { nodes, edges };
+}
+
+/**
+ * Gets the graph view markup, styles and script. Nodes are laid out by a
+ * force simulation on a canvas; click selects a node, double-click opens
+ * it, and the info bar focuses on a node's neighbourhood.
+ */
+export function getGraphViewHtml(data: GraphData): string {
+    // Keep `</script>` and line separators in paths from ending the script early
+    const json = JSON.stringify(data)
+        .replace(/</g, '\\u003c')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029');
+
+    return `
+    <style>
+        .graph-toolbar {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            flex-wrap: wrap;
+            margin-bottom: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .graph-legend {
+            display: flex;
+            gap: 12px;
+            flex-wrap: wrap;
+        }
+
+        .graph-legend span::before {
+            content: '';
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            border-radius: 50%;
+            margin-right: 4px;
+            vertical-align: middle;
+            background-color: var(--legend-color);
+        }
+
+        .graph-directory input {
+            width: 220px;
+            padding: 2px 6px;
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 2px;
+            font-family: inherit;
+            font-size: 12px;
+        }
+
+        .graph-container {
+            position: relative;
+            height: 70vh;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+
+        #graphCanvas {
+            width: 100%;
+            height: 100%;
+            display: block;
+            cursor: grab;
+        }
+
+        .graph-info {
+            position: absolute;
+            left: 8px;
+            bottom: 8px;
+            right: 8px;
+            display: none;
+            gap: 8px;
+            align-items: center;
+            flex-wrap: wrap;
+            padding: 8px;
+            background-color: var(--vscode-editorWidget-background);
+            border: 1px solid var(--vscode-editorWidget-border, var(--vscode-panel-border));
+            border-radius: 4px;
+            font-size: 12px;
+        }
+
+        .graph-info.visible {
+            display: flex;
+        }
+
+        .graph-info-text {
+            flex: 1;
+            min-width: 200px;
+            word-break: break-all;
+        }
+    </style>
+    <div class="graph-toolbar">
+        <div class="graph-legend">
+            <span style="--legend-color: var(--vscode-testing-iconPassed)">Unused, safe</span>
+            <span style="--legend-color: var(--vscode-testing-iconFailed)">Unused, needs review</span>
+            <span style="--legend-color: var(--vscode-descriptionForeground)">Unused, not checked</span>
+            <span style="--legend-color: var(--vscode-charts-purple)">Orphaned island</span>
+            <span style="--legend-color: var(--vscode-charts-yellow)">Ignored</span>
+            <span style="--legend-color: var(--vscode-textLink-foreground)">Used</span>
+            <span style="--legend-color: var(--vscode-disabledForeground)">Other file</span>
+        </div>
+        <label class="graph-directory">Folder
+            <input type="text" id="graphDirectory" list="graphDirectories" placeholder="All folders, e.g. src/components">
+        </label>
+        <datalist id="graphDirectories"></datalist>
+        <label><input type="checkbox" id="graphUnusedOnly"> Unused and neighbours only</label>
+        <button class="btn btn-secondary" id="graphShowAll">Clear Focus</button>
+        <button class="btn btn-secondary" id="graphResetView">Reset View</button>
+        <span id="graphStats"></span>
+    </div>
+    <div class="graph-container">
+        <canvas id="graphCanvas"></canvas>
+        <div class="graph-info" id="graphInfo">
+            <div class="graph-info-text" id="graphInfoText"></div>
+            <button class="btn btn-secondary" id="graphFocus">Focus Neighbourhood</button>
+            <button class="btn btn-secondary" id="graphOpen">Open File</button>
+        </div>
+    </div>
+    <script>
+        window.addEventListener('DOMContentLoaded', function () {
+            const data = ${json};
+            const canvas = document.getElementById('graphCanvas');
+            const context = canvas.getContext('2d');
+            const styles = getComputedStyle(document.body);
+            const color = function (name, fallback) {
+                return styles.getPropertyValue(name).trim() || fallback;
+            };
+            const COLORS = {
+                safe: color('--vscode-testing-iconPassed', '#73c991'),
+                review: color('--vscode-testing-iconFailed', '#f14c4c'),
+                unknown: color('--vscode-descriptionForeground', '#999999'),
+                orphaned: color('--vscode-charts-purple', '#b180d7'),
+                ignored: color('--vscode-charts-yellow', '#cca700'),
+                used: color('--vscode-textLink-foreground', '#3794ff'),
+                file: color('--vscode-disabledForeground', '#777777')
+            };
+            const FOREGROUND = color('--vscode-foreground', '#cccccc');
+            const STATUS_TEXT = {
+                safe: 'Unused, safe to delete',
+                review: 'Unused, needs review',
+                unknown: 'Unused, not checked',
+                orphaned: 'Orphaned island',
+                ignored: 'Ignored',
+                used: 'Used component',
+                file: 'Other file'
+            };
+
+            // Importers and imports of every node
+            const importers = data.nodes.map(function () { return []; });
+            const imports = data.nodes.map(function () { return []; });
+            data.edges.forEach(function (edge) {
+                imports[edge[0]].push(edge[1]);
+                importers[edge[1]].push(edge[0]);
+            });
+
+            // Folders containing a node, suggested by the folder filter
+            const paths = data.nodes.map(function (node) {
+                return node.displayPath.replace(/\\\\/g, '/');
+            });
+            const directories = new Set();
+            paths.forEach(function (filePath) {
+                const parts = filePath.split('/');
+                for (let i = 1; i < parts.length; i++) {
+                    directories.add(parts.slice(0, i).join('/'));
+                }
+            });
+            const directoryList = document.getElementById('graphDirectories');
+            Array.from(directories).sort().forEach(function (directory) {
+                const option = document.createElement('option');
+                option.value = directory;
+                directoryList.appendChild(option);
+            });
+
+            const inDirectory = function (index) {
+                const directory = document.getElementById('graphDirectory').value.trim()
+                    .replace(/\\\\/g, '/').replace(/^\\.\\//, '').replace(/\\/+$/, '');
+                return !directory || paths[index] === directory || paths[index].startsWith(directory + '/');
+            };
+
+            // Positions survive re-filtering, so focusing does not reshuffle the graph
+            const positions = data.nodes.map(function (node, index) {
+                const radius = 12 * Math.sqrt(index + 1);
+                const angle = index * 2.39996;
+                return { x: radius * Math.cos(angle), y: radius * Math.sin(angle), vx: 0, vy: 0 };
+            });
+
+            let visible = [];
+            let visibleSet = new Set();
+            let visibleEdges = [];
+            let selected = -1;
+            let alpha = 0;
+            let running = false;
+            const view = { x: 0, y: 0, scale: 1 };
+
+            const isHighlighted = function (index) {
+                return data.nodes[index].status !== 'used' && data.nodes[index].status !== 'file';
+            };
+
+            function setVisible(indexes) {
+                visible = indexes;
+                visibleSet = new Set(indexes);
+                visibleEdges = data.edges.filter(function (edge) {
+                    return visibleSet.has(edge[0]) && visibleSet.has(edge[1]);
+                });
+                if (selected >= 0 && !visibleSet.has(selected)) {
+                    select(-1);
+                }
+                document.getElementById('graphStats').textContent =
+                    visible.length + ' of ' + data.nodes.length + ' files, ' + visibleEdges.length + ' imports';
+                reheat(1);
+            }
+
+            function showAll() {
+                const unusedOnly = document.getElementById('graphUnusedOnly').checked;
+                if (!unusedOnly) {
+                    setVisible(data.nodes.map(function (node, index) { return index; }).filter(inDirectory));
+                    return;
+                }
+                const indexes = new Set();
+                data.nodes.forEach(function (node, index) {
+                    if (isHighlighted(index)) {
+                        indexes.add(index);
+                        importers[index].forEach(function (other) { indexes.add(other); });
+                        imports[index].forEach(function (other) { indexes.add(other); });
+                    }
+                });
+                setVisible(Array.from(indexes).filter(inDirectory));
+            }
+
+            function focusNeighbourhood(index) {
+                const indexes = new Set([index]);
+                importers[index].forEach(function (other) { indexes.add(other); });
+                imports[index].forEach(function (other) { indexes.add(other); });
+                setVisible(Array.from(indexes));
+                view.x = -positions[index].x * view.scale;
+                view.y = -positions[index].y * view.scale;
+            }
+
+            function select(index) {
+                selected = index;
+                const info = document.getElementById('graphInfo');
+                if (index < 0) {
+                    info.classList.remove('visible');
+                    draw();
+                    return;
+                }
+                const node = data.nodes[index];
+                document.getElementById('graphInfoText').textContent =
+                    node.label + ' — ' + node.displayPath + ' — ' + STATUS_TEXT[node.status] +
+                    ' — ' + importers[index].length + ' importer(s), ' + imports[index].length + ' import(s)';
+                info.classList.add('visible');
+                draw();
+            }
+
+            function reheat(value) {
+                alpha = Math.max(alpha, value);
+                if (!running) {
+                    running = true;
+                    requestAnimationFrame(step);
+                }
+            }
+
+            function step() {
+                for (let i = 0; i < 3 && alpha > 0.01; i++) {
+                    tick();
+                }
+                draw();
+                if (alpha > 0.01) {
+                    requestAnimationFrame(step);
+                } else {
+                    running = false;
+                }
+            }
+
+            // One simulation step: grid-bucketed repulsion, springs along imports, gravity
+            function tick() {
+                const CELL = 80;
+                const grid = new Map();
+                visible.forEach(function (index) {
+                    const p = positions[index];
+                    const key = Math.floor(p.x / CELL) + ',' + Math.floor(p.y / CELL);
+                    if (!grid.has(key)) {
+                        grid.set(key, []);
+                    }
+                    grid.get(key).push(index);
+                });
+
+                visible.forEach(function (index) {
+                    const p = positions[index];
+                    const cx = Math.floor(p.x / CELL);
+                    const cy = Math.floor(p.y / CELL);
+                    for (let dx = -1; dx <= 1; dx++) {
+                        for (let dy = -1; dy <= 1; dy++) {
+                            const bucket = grid.get((cx + dx) + ',' + (cy + dy));
+                            if (!bucket) continue;
+                            bucket.forEach(function (other) {
+                                if (other <= index) return;
+                                const q = positions[other];
+                                let ddx = p.x - q.x;
+                                let ddy = p.y - q.y;
+                                let distance2 = ddx * ddx + ddy * ddy;
+                                if (distance2 === 0) {
+                                    ddx = Math.random() - 0.5;
+                                    ddy = Math.random() - 0.5;
+                                    distance2 = ddx * ddx + ddy * ddy;
+                                }
+                                if (distance2 > CELL * CELL) return;
+                                const force = 300 * alpha / distance2;
+                                p.vx += ddx * force;
+                                p.vy += ddy * force;
+                                q.vx -= ddx * force;
+                                q.vy -= ddy * force;
+                            });
+                        }
+                    }
+                });
+
+                visibleEdges.forEach(function (edge) {
+                    const p = positions[edge[0]];
+                    const q = positions[edge[1]];
+                    const ddx = q.x - p.x;
+                    const ddy = q.y - p.y;
+                    const distance = Math.sqrt(ddx * ddx + ddy * ddy) || 1;
+                    const force = (distance - 50) * 0.04 * alpha / distance;
+                    p.vx += ddx * force;
+                    p.vy += ddy * force;
+                    q.vx -= ddx * force;
+                    q.vy -= ddy * force;
+                });
+
+                visible.forEach(function (index) {
+                    const p = positions[index];
+                    if (p.fixed) {
+                        p.vx = 0;
+                        p.vy = 0;
+                        return;
+                    }
+                    p.vx -= p.x * 0.005 * alpha;
+                    p.vy -= p.y * 0.005 * alpha;
+                    p.vx *= 0.6;
+                    p.vy *= 0.6;
+                    p.x += p.vx;
+                    p.y += p.vy;
+                });
+
+                alpha *= 0.985;
+            }
+
+            const radius = function (index) {
+                return 3 + Math.min(8, Math.sqrt(importers[index].length + imports[index].length));
+            };
+
+            function draw() {
+                const ratio = window.devicePixelRatio || 1;
+                const width = canvas.clientWidth;
+                const height = canvas.clientHeight;
+                if (canvas.width !== width * ratio || canvas.height !== height * ratio) {
+                    canvas.width = width * ratio;
+                    canvas.height = height * ratio;
+                }
+
+                context.setTransform(1, 0, 0, 1, 0, 0);
+                context.clearRect(0, 0, canvas.width, canvas.height);
+                context.setTransform(
+                    ratio * view.scale, 0, 0, ratio * view.scale,
+                    ratio * (width / 2 + view.x), ratio * (height / 2 + view.y)
+                );
+
+                const neighbours = new Set();
+                if (selected >= 0) {
+                    neighbours.add(selected);
+                    importers[selected].forEach(function (other) { neighbours.add(other); });
+                    imports[selected].forEach(function (other) { neighbours.add(other); });
+                }
+
+                context.lineWidth = 1 / view.scale;
+                visibleEdges.forEach(function (edge) {
+                    const active = selected >= 0 && (edge[0] === selected || edge[1] === selected);
+                    const p = positions[edge[0]];
+                    const q = positions[edge[1]];
+                    context.strokeStyle = FOREGROUND;
+                    context.globalAlpha = active ? 0.9 : selected >= 0 ? 0.08 : 0.25;
+                    context.beginPath();
+                    context.moveTo(p.x, p.y);
+                    context.lineTo(q.x, q.y);
+
+                    // Arrowhead at the imported file
+                    const distance = Math.sqrt((q.x - p.x) * (q.x - p.x) + (q.y - p.y) * (q.y - p.y)) || 1;
+                    const ux = (q.x - p.x) / distance;
+                    const uy = (q.y - p.y) / distance;
+                    const tipX = q.x - ux * radius(edge[1]);
+                    const tipY = q.y - uy * radius(edge[1]);
+                    context.moveTo(tipX, tipY);
+                    context.lineTo(tipX - ux * 5 - uy * 3, tipY - uy * 5 + ux * 3);
+                    context.moveTo(tipX, tipY);
+                    context.lineTo(tipX - ux * 5 + uy * 3, tipY - uy * 5 - ux * 3);
+                    context.stroke();
+                });
+
+                const showLabels = view.scale > 1.2 || visible.length <= 60;
+                context.font = (11 / view.scale) + 'px ' + styles.fontFamily;
+                context.textBaseline = 'middle';
+                visible.forEach(function (index) {
+                    const p = positions[index];
+                    const node = data.nodes[index];
+                    context.globalAlpha = selected >= 0 && !neighbours.has(index) ? 0.2 : 1;
+                    context.fillStyle = COLORS[node.status];
+                    context.beginPath();
+                    context.arc(p.x, p.y, radius(index), 0, Math.PI * 2);
+                    context.fill();
+
+                    if (index === selected) {
+                        context.strokeStyle = FOREGROUND;
+                        context.lineWidth = 2 / view.scale;
+                        context.stroke();
+                        context.lineWidth = 1 / view.scale;
+                    }
+
+                    if (showLabels || neighbours.has(index) || (isHighlighted(index) && view.scale > 0.8)) {
+                        context.fillStyle = FOREGROUND;
+                        context.fillText(node.label, p.x + radius(index) + 3, p.y);
+                    }
+                });
+                context.globalAlpha = 1;
+            }
+
+            // Converts canvas coordinates to graph coordinates
+            function toGraph(event) {
+                const rect = canvas.getBoundingClientRect();
+                return {
+                    x: (event.clientX - rect.left - rect.width / 2 - view.x) / view.scale,
+                    y: (event.clientY - rect.top - rect.height / 2 - view.y) / view.scale
+                };
+            }
+
+            function findNode(event) {
+                const point = toGraph(event);
+                let found = -1;
+                let best = Infinity;
+                visible.forEach(function (index) {
+                    const p = positions[index];
+                    const distance = Math.sqrt((p.x - point.x) * (p.x - point.x) + (p.y - point.y) * (p.y - point.y));
+                    if (distance <= radius(index) + 3 / view.scale && distance < best) {
+                        best = distance;
+                        found = index;
+                    }
+                });
+                return found;
+            }
+
+            let drag = null;
+            canvas.addEventListener('mousedown', function (event) {
+                const index = findNode(event);
+                drag = { index: index, startX: event.clientX, startY: event.clientY, x: view.x, y: view.y, moved: false };
+                canvas.style.cursor = 'grabbing';
+            });
+
+            window.addEventListener('mousemove', function (event) {
+                if (!drag) {
+                    canvas.style.cursor = findNode(event) >= 0 ? 'pointer' : 'grab';
+                    return;
+                }
+                if (Math.abs(event.clientX - drag.startX) + Math.abs(event.clientY - drag.startY) > 3) {
+                    drag.moved = true;
+                }
+                if (drag.index >= 0) {
+                    const point = toGraph(event);
+                    const p = positions[drag.index];
+                    p.x = point.x;
+                    p.y = point.y;
+                    p.fixed = true;
+                    reheat(0.1);
+                } else {
+                    view.x = drag.x + event.clientX - drag.startX;
+                    view.y = drag.y + event.clientY - drag.startY;
+                    draw();
+                }
+            });
+
+            window.addEventListener('mouseup', function () {
+                if (!drag) return;
+                if (drag.index >= 0) {
+                    positions[drag.index].fixed = false;
+                }
+                if (!drag.moved) {
+                    select(drag.index);
+                }
+                drag = null;
+                canvas.style.cursor = 'grab';
+            });
+
+            canvas.addEventListener('dblclick', function (event) {
+                const index = findNode(event);
+                if (index >= 0) {
+                    openFile(data.nodes[index].filePath);
+                }
+            });
+
+            canvas.addEventListener('wheel', function (event) {
+                event.preventDefault();
+                const rect = canvas.getBoundingClientRect();
+                const before = toGraph(event);
+                view.scale = Math.min(8, Math.max(0.05, view.scale * Math.exp(-event.deltaY * 0.0015)));
+                view.x = event.clientX - rect.left - rect.width / 2 - before.x * view.scale;
+                view.y = event.clientY - rect.top - rect.height / 2 - before.y * view.scale;
+                draw();
+            }, { passive: false });
+
+            document.getElementById('graphOpen').addEventListener('click', function () {
+                if (selected >= 0) {
+                    openFile(data.nodes[selected].filePath);
+                }
+            });
+            document.getElementById('graphFocus').addEventListener('click', function () {
+                if (selected >= 0) {
+                    focusNeighbourhood(selected);
+                }
+            });
+            document.getElementById('graphShowAll').addEventListener('click', showAll);
+            document.getElementById('graphUnusedOnly').addEventListener('change', showAll);
+            document.getElementById('graphDirectory').addEventListener('input', showAll);
+            document.getElementById('graphResetView').addEventListener('click', function () {
+                view.x = 0;
+                view.y = 0;
+                view.scale = 1;
+                draw();
+            });
+            window.addEventListener('resize', draw);
+
+            document.getElementById('graphUnusedOnly').checked = data.nodes.length > ${MAX_FULL_GRAPH_NODES};
+            showAll();
+        });
+    </script>`;
+}
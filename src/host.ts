@@ -0,0 +1,158 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { matchesGlob } from './glob';
+
+/**
+ * Environment the scanner, analyzer and safety checker run in.
+ * The extension provides one backed by the VS Code workspace API,
+ * the CLI one backed by the local file system.
+ */
+export interface ProjectHost {
+    /**
+     * Gets the root folders to scan
+     */
+    getRootFolders(): string[];
+
+    /**
+     * Streams the files under a root folder whose root-relative path
+     * matches `include` and not `exclude`, in pages of absolute paths.
+     * The whole folder is covered; callers stop iterating to cap it.
+     */
+    streamFiles(root: string, include: string, exclude?: string): AsyncIterable<string[]>;
+
+    /**
+     * Reports a warning to the user
+     */
+    showWarning(message: string): void;
+
+    /**
+     * Reports an error to the user
+     */
+    showError(message: string): void;
+}
+
+/**
+ * Folder in each workspace folder holding the extension's own files,
+ * such as quarantined deletions
+ */
+export const PRUNER_DATA_DIRECTORY = '.component-pruner';
+
+/**
+ * Folders never descended into when walking the file system
+ */
+export const SKIPPED_DIRECTORIES = ['node_modules', '.git', PRUNER_DATA_DIRECTORY];
+
+/**
+ * Number of matching files collected before a page is handed out
+ */
+const PAGE_SIZE = 500;
+
+/**
+ * Entry of a directory listing
+ */
+export interface DirectoryEntry {
+    name: string;
+    isDirectory: boolean;
+    isFile: boolean;
+}
+
+/**
+ * Walks a folder breadth-first through `readDirectory` and yields pages
+ * of files whose root-relative path matches `include` and not `exclude`.
+ * Dependency and VCS folders are skipped; unreadable folders are ignored.
+ */
+export async function* walkFiles(
+    root: string,
+    include: string,
+    exclude: string | undefined,
+    readDirectory: (dir: string) => Promise<DirectoryEntry[]>
+): AsyncGenerator<string[]> {
+    const pending = [root];
+    let page: string[] = [];
+
+    while (pending.length > 0) {
+        const dir = pending.shift()!;
+        let entries: DirectoryEntry[];
+        try {
+            entries = await readDirectory(dir);
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory) {
+                if (!SKIPPED_DIRECTORIES.includes(entry.name)) {
+                    pending.push(fullPath);
+                }
+                continue;
+            }
+
+            if (!entry.isFile) {
+                continue;
+            }
+
+            const relativePath = path.relative(root, fullPath);
+            if (matchesGlob(relativePath, [include]) &&
+                !(exclude && matchesGlob(relativePath, [exclude]))) {
+                page.push(fullPath);
+            }
+        }
+
+        if (page.length >= PAGE_SIZE) {
+            yield page;
+            page = [];
+        }
+    }
+
+    if (page.length > 0) {
+        yield page;
+    }
+}
+
+/**
+ * Gets the root folder that contains a file, if any
+ */
+export function getRootFolderFor(host: ProjectHost, filePath: string): string | undefined {
+    return host.getRootFolders()
+        .filter(root => {
+            const relative = path.relative(root, filePath);
+            return !relative.startsWith('..') && !path.isAbsolute(relative);
+        })
+        .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * NodeHost class for running outside VS Code (CLI, CI).
+ * Walks the file system directly and writes messages to stderr.
+ */
+export class NodeHost implements ProjectHost {
+    private roots: string[];
+
+    constructor(roots: string[]) {
+        this.roots = roots.map(root => path.resolve(root));
+    }
+
+    getRootFolders(): string[] {
+        return this.roots;
+    }
+
+    streamFiles(root: string, include: string, exclude?: string): AsyncIterable<string[]> {
+        return walkFiles(root, include, exclude, async (dir) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            return entries.map(entry => ({
+                name: entry.name,
+                isDirectory: entry.isDirectory(),
+                isFile: entry.isFile()
+            }));
+        });
+    }
+
+    showWarning(message: string): void {
+        process.stderr.write(`warning: ${message}\n`);
+    }
+
+    showError(message: string): void {
+        process.stderr.write(`error: ${message}\n`);
+    }
+}
@@ -0,0 +1,157 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { matchesPatternList } from './glob';
+import { isJsonObject, parseJsonc } from './resolver';
+
+/**
+ * Name of the project-level ignore file, read from each root folder
+ */
+export const PRUNER_CONFIG_FILE = '.componentprunerrc';
+
+/**
+ * A keep-list entry: files matching `path` are never reported until
+ * `expires` (an ISO date) has passed
+ */
+export interface KeepEntry {
+    path: string;
+    reason?: string;
+    expires?: string;
+}
+
+/**
+ * Contents of `.componentprunerrc`
+ */
+export interface PrunerConfig {
+    ignore: string[];
+    keep: KeepEntry[];
+}
+
+/**
+ * Why a component is excluded from the results
+ */
+export interface IgnoreInfo {
+    source: 'ignore' | 'keep' | 'annotation';
+    reason?: string;
+    expires?: string;
+}
+
+const EMPTY_CONFIG: PrunerConfig = { ignore: [], keep: [] };
+
+/**
+ * `// pruner-ignore` line comment, optionally followed by a reason
+ */
+const IGNORE_COMMENT_PATTERN = /^[ \t]*\/\/[ \t]*pruner-ignore\b[ \t:-]*(.*)$/m;
+
+/**
+ * JSDoc block comments, searched for a `@keep` tag
+ */
+const JSDOC_PATTERN = /\/\*\*[\s\S]*?\*\//g;
+const KEEP_TAG_PATTERN = /@keep\b[ \t:-]*([^\n]*)/;
+
+/**
+ * Loads `.componentprunerrc` from a root folder.
+ * Returns an empty config when the file is missing and throws when it is invalid.
+ */
+export function loadPrunerConfig(rootFolder: string): PrunerConfig {
+    const configPath = path.join(rootFolder, PRUNER_CONFIG_FILE);
+    if (!fs.existsSync(configPath)) {
+        return EMPTY_CONFIG;
+    }
+
+    const raw = parseJsonc(fs.readFileSync(configPath, 'utf-8'));
+    if (!isJsonObject(raw)) {
+        throw new Error(`${PRUNER_CONFIG_FILE} must contain a JSON object`);
+    }
+
+    const ignore: unknown = raw.ignore ?? [];
+    if (!Array.isArray(ignore) || !ignore.every((pattern): pattern is string => typeof pattern === 'string')) {
+        throw new Error('"ignore" must be an array of glob patterns');
+    }
+
+    const keepEntries: unknown = raw.keep ?? [];
+    if (!Array.isArray(keepEntries)) {
+        throw new Error('"keep" must be an array');
+    }
+
+    const keep: KeepEntry[] = [];
+    for (const entry of keepEntries as unknown[]) {
+        if (typeof entry === 'string') {
+            keep.push({ path: entry });
+        } else if (isJsonObject(entry) && typeof entry.path === 'string') {
+            const { reason, expires } = entry;
+            if (expires !== undefined && (typeof expires !== 'string' || isNaN(Date.parse(expires)))) {
+                throw new Error(`Invalid "expires" date for keep entry "${entry.path}"`);
+            }
+            keep.push({
+                path: entry.path,
+                reason: typeof reason === 'string' ? reason : undefined,
+                expires
+            });
+        } else {
+            throw new Error('"keep" entries must be glob strings or objects with a "path"');
+        }
+    }
+
+    return { ignore, keep };
+}
+
+/**
+ * Checks whether a keep entry has passed its expiry date
+ */
+export function isKeepEntryExpired(entry: KeepEntry, now: Date = new Date()): boolean {
+    return entry.expires !== undefined && Date.parse(entry.expires) < now.getTime();
+}
+
+/**
+ * Gets keep entries whose expiry date has passed
+ */
+export function getExpiredKeepEntries(config: PrunerConfig, now: Date = new Date()): KeepEntry[] {
+    return config.keep.filter(entry => isKeepEntryExpired(entry, now));
+}
+
+/**
+ * Reads a `// pruner-ignore` or `@keep` annotation from file content
+ */
+export function getIgnoreAnnotation(content: string): IgnoreInfo | undefined {
+    const comment = IGNORE_COMMENT_PATTERN.exec(content);
+    if (comment) {
+        return { source: 'annotation', reason: comment[1].trim() || undefined };
+    }
+
+    for (const block of content.match(JSDOC_PATTERN) || []) {
+        const tag = KEEP_TAG_PATTERN.exec(block);
+        if (tag) {
+            const reason = tag[1].replace(/\*\/\s*$/, '').trim();
+            return { source: 'annotation', reason: reason || undefined };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks whether a component file is excluded by `.componentprunerrc`
+ * or by its annotation (see getIgnoreAnnotation). Expired keep entries
+ * no longer apply.
+ */
+export function getIgnoreInfo(
+    filePath: string,
+    rootFolder: string,
+    annotation: IgnoreInfo | undefined,
+    config: PrunerConfig
+): IgnoreInfo | undefined {
+    const relativePath = path.relative(rootFolder, filePath);
+
+    if (matchesPatternList(relativePath, config.ignore)) {
+        return { source: 'ignore' };
+    }
+
+    const keep = config.keep.find(
+        entry => !isKeepEntryExpired(entry) && matchesPatternList(relativePath, [entry.path])
+    );
+    if (keep) {
+        return { source: 'keep', reason: keep.reason, expires: keep.expires };
+    }
+
+    return annotation;
+}
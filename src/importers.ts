@@ -0,0 +1,87 @@
+import * as path from 'path';
+import { matchesGlob } from './glob';
+
+/**
+ * Kind of file that imports a component.
+ * Only `product` importers keep a component in use.
+ */
+export type ImporterCategory = 'product' | 'story' | 'test';
+
+/**
+ * How a component is used across the project
+ */
+export type UsageStatus = 'used' | 'unused' | 'stories-only' | 'tests-only';
+
+/**
+ * Default globs identifying test files and test infrastructure
+ */
+export const DEFAULT_TEST_PATTERNS = [
+    '**/*.test.*',
+    '**/*.spec.*',
+    '**/__tests__/**',
+    '**/__mocks__/**',
+    '**/test/**',
+    '**/tests/**',
+    '**/e2e/**',
+    '**/cypress/**',
+    '**/setupTests.*',
+    '**/jest.setup.*',
+    '**/vitest.setup.*'
+];
+
+/**
+ * Matches Storybook story files (CSF and MDX)
+ */
+const STORY_FILE_REGEX = /\.(stories|story)\.(js|jsx|ts|tsx|mjs|mdx)$/i;
+
+/**
+ * Checks if a file is a Storybook story file
+ */
+export function isStoryFile(filePath: string): boolean {
+    return STORY_FILE_REGEX.test(path.basename(filePath));
+}
+
+/**
+ * Checks if a file is a test file. Patterns are matched against the
+ * path relative to the project root.
+ */
+export function isTestFile(
+    filePath: string,
+    projectRoot: string,
+    testPatterns: string[] = DEFAULT_TEST_PATTERNS
+): boolean {
+    const relativePath = path.relative(projectRoot, filePath);
+    const candidate = relativePath.startsWith('..') ? filePath : relativePath;
+    return matchesGlob(candidate, testPatterns);
+}
+
+/**
+ * Classifies an importing file
+ */
+export function categorizeImporter(
+    filePath: string,
+    projectRoot: string,
+    testPatterns: string[] = DEFAULT_TEST_PATTERNS
+): ImporterCategory {
+    if (isStoryFile(filePath)) {
+        return 'story';
+    }
+    return isTestFile(filePath, projectRoot, testPatterns) ? 'test' : 'product';
+}
+
+/**
+ * Derives a usage status from a component's importer categories
+ */
+export function getUsageStatusFromCategories(categories: ImporterCategory[]): UsageStatus {
+    if (categories.length === 0) {
+        return 'unused';
+    }
+
+    const unique = new Set(categories);
+    if (unique.has('product')) {
+        return 'used';
+    }
+
+    // Stories take precedence: a storied component is a design-system piece
+    return unique.has('story') ? 'stories-only' : 'tests-only';
+}
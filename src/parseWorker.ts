@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import { isMainThread, parentPort } from 'worker_threads';
+import {
+    ComponentSymbol,
+    extractComponentSymbols,
+    extractImports,
+    extractStoryMeta,
+    ParsedImport,
+    StoryMeta
+} from './parser';
+import { getIgnoreAnnotation, IgnoreInfo } from './ignore';
+import { isStoryFile } from './importers';
+import { hashContent } from './fileIndex';
+
+/**
+ * Detects the components declared in a file and its ignore annotation
+ */
+export interface ComponentTask {
+    kind: 'component';
+    filePath: string;
+    componentName: string;
+}
+
+/**
+ * Extracts the imports of a file and, for stories, the CSF metadata
+ */
+export interface ImportsTask {
+    kind: 'imports';
+    filePath: string;
+}
+
+export type ParseTask = ComponentTask | ImportsTask;
+
+/**
+ * Result of a component task
+ */
+export interface ComponentTaskResult {
+    hash: string;
+    isComponent: boolean;
+    symbols: ComponentSymbol[];
+    annotation?: IgnoreInfo;
+}
+
+/**
+ * Result of an imports task
+ */
+export interface ImportsTaskResult {
+    hash: string;
+    imports: ParsedImport[];
+    storyMeta?: StoryMeta;
+}
+
+/**
+ * Message sent to a worker
+ */
+export interface ParseRequest {
+    id: number;
+    task: ParseTask;
+}
+
+/**
+ * Message sent back by a worker
+ */
+export interface ParseResponse {
+    id: number;
+    result?: ComponentTaskResult | ImportsTaskResult;
+    error?: string;
+}
+
+/**
+ * Checks if file content is a React component (sync version for batch processing)
+ */
+export function isReactComponentContent(content: string): boolean {
+    // Quick checks first (most common patterns)
+    const hasReactImport = content.includes('from \'react\'') ||
+                          content.includes('from "react"') ||
+                          content.includes('from \'react/');
+
+    const hasJSX = /<[A-Z]/.test(content) || /<\/[A-Z]/.test(content);
+
+    if (!hasReactImport && !hasJSX) {
+        return false;
+    }
+
+    // Check for component patterns
+    const hasComponentPattern =
+        /(function|const|class)\s+[A-Z][a-zA-Z0-9]*\s*[=\(]/.test(content) ||
+        /export\s+(default\s+)?(function|const|class)\s+[A-Z][a-zA-Z0-9]*/.test(content);
+
+    return (hasReactImport || hasJSX) && (hasJSX || hasComponentPattern);
+}
+
+/**
+ * Runs a component task on already read file content
+ */
+export function detectComponentContent(filePath: string, content: string, componentName: string): ComponentTaskResult {
+    const hash = hashContent(content);
+    if (!content || !isReactComponentContent(content)) {
+        return { hash, isComponent: false, symbols: [] };
+    }
+
+    return {
+        hash,
+        isComponent: true,
+        symbols: extractComponentSymbols(filePath, content, componentName),
+        annotation: getIgnoreAnnotation(content)
+    };
+}
+
+/**
+ * Runs an imports task on already read file content
+ */
+export function extractImportsContent(filePath: string, content: string): ImportsTaskResult {
+    return {
+        hash: hashContent(content),
+        imports: extractImports(filePath, content),
+        storyMeta: isStoryFile(filePath) ? extractStoryMeta(filePath, content) : undefined
+    };
+}
+
+/**
+ * Reads the task's file and runs the task. Throws when the file cannot be read.
+ */
+export function runParseTask(task: ParseTask): ComponentTaskResult | ImportsTaskResult {
+    const content = fs.readFileSync(task.filePath, 'utf-8');
+
+    return task.kind === 'component'
+        ? detectComponentContent(task.filePath, content, task.componentName)
+        : extractImportsContent(task.filePath, content);
+}
+
+// Entry point when loaded by ParserPool
+if (!isMainThread && parentPort) {
+    const port = parentPort;
+    port.on('message', ({ id, task }: ParseRequest) => {
+        let response: ParseResponse;
+        try {
+            response = { id, result: runParseTask(task) };
+        } catch (error) {
+            response = { id, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+        port.postMessage(response);
+    });
+}
@@ -0,0 +1,579 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * How a module is referenced by a file
+ */
+export type ImportKind =
+    | 'import'
+    | 'side-effect'
+    | 're-export'
+    | 'require'
+    | 'dynamic'
+    | 'mock';
+
+/**
+ * A module reference found in a source file.
+ * `isTypeOnly` marks references erased by the compiler (`import type`,
+ * or only `type` specifiers), which never load the module.
+ * `bindings` lists the imported export names (`default`, `Card`...),
+ * or `*` when the whole module is pulled in (namespace imports, `require`,
+ * `import()` and `export *`)
+ */
+export interface ParsedImport {
+    specifier: string;
+    kind: ImportKind;
+    isTypeOnly: boolean;
+    bindings: string[];
+    reExports?: ReExportBinding[];
+}
+
+/**
+ * A name re-exported from another module: `export { imported as exported } from`.
+ * `export * from` is recorded as imported `*` and exported `*`
+ */
+export interface ReExportBinding {
+    imported: string;
+    exported: string;
+}
+
+/**
+ * Offset range inside a source file
+ */
+export interface SourceRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A React component declared in a file
+ */
+export interface ComponentSymbol {
+    name: string;
+    exportNames: string[];
+    isExported: boolean;
+    isReferencedLocally: boolean;
+    line: number;
+    range: SourceRange;
+    exportRanges: SourceRange[];
+}
+
+/**
+ * Test-runner calls that reference a module path: `jest.mock('./Foo')`, `vi.mock(...)`
+ */
+const MOCK_CALL_REGEX = /^(jest|vi)\.(mock|doMock|unmock|requireActual|requireMock|importActual|importMock)$/;
+
+/**
+ * Picks the parser script kind from a file extension
+ */
+function getScriptKind(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.tsx':
+            return ts.ScriptKind.TSX;
+        case '.ts':
+        case '.mts':
+        case '.cts':
+            return ts.ScriptKind.TS;
+        case '.jsx':
+            return ts.ScriptKind.JSX;
+        default:
+            // Plain .js files may contain JSX (Create React App and friends)
+            return ts.ScriptKind.JSX;
+    }
+}
+
+/**
+ * Parses a file into a TypeScript syntax tree
+ */
+export function parseSourceFile(
+    filePath: string,
+    content: string,
+    setParentNodes: boolean = false
+): ts.SourceFile {
+    return ts.createSourceFile(
+        filePath,
+        content,
+        ts.ScriptTarget.Latest,
+        setParentNodes,
+        getScriptKind(filePath)
+    );
+}
+
+/**
+ * Gets the text of a string literal or a template without substitutions
+ */
+function getLiteralText(node: ts.Node | undefined): string | undefined {
+    if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+        return node.text;
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether an import clause only brings in types:
+ * `import type { A }` or `import { type A, type B }`
+ */
+function isTypeOnlyImportClause(importClause: ts.ImportClause): boolean {
+    if (importClause.isTypeOnly) {
+        return true;
+    }
+
+    const namedBindings = importClause.namedBindings;
+    return !importClause.name &&
+        namedBindings !== undefined &&
+        ts.isNamedImports(namedBindings) &&
+        namedBindings.elements.length > 0 &&
+        namedBindings.elements.every(element => element.isTypeOnly);
+}
+
+/**
+ * Checks whether a re-export only forwards types:
+ * `export type { A } from` or `export { type A } from`
+ */
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+    const clause = node.exportClause;
+    return node.isTypeOnly || (
+        clause !== undefined &&
+        ts.isNamedExports(clause) &&
+        clause.elements.length > 0 &&
+        clause.elements.every(element => element.isTypeOnly)
+    );
+}
+
+/**
+ * Gets the export names pulled in by an import clause
+ */
+function getImportClauseBindings(importClause: ts.ImportClause | undefined): string[] {
+    if (!importClause) {
+        return [];
+    }
+
+    const bindings: string[] = [];
+    if (importClause.name) {
+        bindings.push('default');
+    }
+
+    const namedBindings = importClause.namedBindings;
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        bindings.push('*');
+    } else if (namedBindings) {
+        // `type` specifiers are erased, so they pull nothing in
+        for (const element of namedBindings.elements.filter(element => !element.isTypeOnly)) {
+            bindings.push((element.propertyName ?? element.name).text);
+        }
+    }
+
+    return bindings;
+}
+
+/**
+ * Gets the names forwarded by an `export ... from` declaration
+ */
+function getReExportBindings(node: ts.ExportDeclaration): ReExportBinding[] {
+    const clause = node.exportClause;
+
+    if (!clause) {
+        return [{ imported: '*', exported: '*' }];
+    }
+
+    if (ts.isNamespaceExport(clause)) {
+        return [{ imported: '*', exported: clause.name.text }];
+    }
+
+    return clause.elements.filter(element => !element.isTypeOnly).map(element => ({
+        imported: (element.propertyName ?? element.name).text,
+        exported: element.name.text
+    }));
+}
+
+/**
+ * Extracts every static import, re-export, side-effect import,
+ * `require()` call, `import()` expression and `jest.mock()`/`vi.mock()`
+ * reference from a source file.
+ * Comments and string contents are ignored since only real syntax is visited.
+ */
+export function extractImports(filePath: string, content: string): ParsedImport[] {
+    const sourceFile = parseSourceFile(filePath, content);
+    const imports: ParsedImport[] = [];
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isImportDeclaration(node)) {
+            const specifier = getLiteralText(node.moduleSpecifier);
+            if (specifier !== undefined) {
+                imports.push({
+                    specifier,
+                    kind: node.importClause ? 'import' : 'side-effect',
+                    isTypeOnly: node.importClause ? isTypeOnlyImportClause(node.importClause) : false,
+                    bindings: getImportClauseBindings(node.importClause)
+                });
+            }
+            return;
+        }
+
+        if (ts.isExportDeclaration(node)) {
+            const specifier = getLiteralText(node.moduleSpecifier);
+            if (specifier !== undefined) {
+                const reExports = getReExportBindings(node);
+                imports.push({
+                    specifier,
+                    kind: 're-export',
+                    isTypeOnly: isTypeOnlyExport(node),
+                    bindings: reExports.map(binding => binding.imported),
+                    reExports
+                });
+            }
+            return;
+        }
+
+        if (ts.isImportEqualsDeclaration(node) &&
+            ts.isExternalModuleReference(node.moduleReference)) {
+            const specifier = getLiteralText(node.moduleReference.expression);
+            if (specifier !== undefined) {
+                imports.push({ specifier, kind: 'require', isTypeOnly: node.isTypeOnly, bindings: ['*'] });
+            }
+            return;
+        }
+
+        if (ts.isCallExpression(node)) {
+            const specifier = getLiteralText(node.arguments[0]);
+
+            if (specifier !== undefined) {
+                if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                    imports.push({ specifier, kind: 'dynamic', isTypeOnly: false, bindings: ['*'] });
+                } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+                    imports.push({ specifier, kind: 'require', isTypeOnly: false, bindings: ['*'] });
+                } else if (ts.isPropertyAccessExpression(node.expression) &&
+                           MOCK_CALL_REGEX.test(node.expression.getText(sourceFile))) {
+                    imports.push({ specifier, kind: 'mock', isTypeOnly: false, bindings: [] });
+                }
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return imports;
+}
+
+/**
+ * Checks whether a name looks like a component (PascalCase)
+ */
+function isComponentName(name: string): boolean {
+    return /^[A-Z][a-zA-Z0-9]*$/.test(name) && /[a-z]/.test(name);
+}
+
+/**
+ * Checks whether a node renders JSX or calls createElement
+ */
+function containsJsx(node: ts.Node): boolean {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+        return true;
+    }
+
+    if (ts.isCallExpression(node)) {
+        const callee = node.expression;
+        const calleeName = ts.isPropertyAccessExpression(callee) ? callee.name.text
+            : ts.isIdentifier(callee) ? callee.text : '';
+        if (calleeName === 'createElement') {
+            return true;
+        }
+    }
+
+    return ts.forEachChild(node, containsJsx) === true;
+}
+
+/**
+ * Checks whether a variable initializer defines a component:
+ * a JSX-returning function, a memo/forwardRef/observer wrapper,
+ * or a styled-components template
+ */
+function isComponentInitializer(node: ts.Expression): boolean {
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        return containsJsx(node);
+    }
+
+    if (ts.isCallExpression(node)) {
+        const calleeText = node.expression.getText();
+        if (/\b(memo|forwardRef|observer|lazy|styled)\b/.test(calleeText)) {
+            return true;
+        }
+        return node.arguments.some(arg =>
+            (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) && containsJsx(arg)
+        );
+    }
+
+    if (ts.isTaggedTemplateExpression(node)) {
+        return /^styled\b/.test(node.tag.getText());
+    }
+
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+        return isComponentInitializer(node.expression);
+    }
+
+    return false;
+}
+
+/**
+ * Checks whether a class extends React.Component / PureComponent
+ */
+function isComponentClass(node: ts.ClassDeclaration): boolean {
+    return (node.heritageClauses ?? []).some(clause =>
+        clause.token === ts.SyntaxKind.ExtendsKeyword &&
+        clause.types.some(type => /\b(Pure)?Component\b/.test(type.expression.getText()))
+    ) || containsJsx(node);
+}
+
+/**
+ * Checks a statement for a given modifier keyword
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return modifiers?.some(modifier => modifier.kind === kind) ?? false;
+}
+
+/**
+ * Enumerates the top-level React components declared in a file, with their
+ * export names, declaration ranges and whether the file references them itself.
+ * `fallbackName` names anonymous default exports.
+ */
+export function extractComponentSymbols(
+    filePath: string,
+    content: string,
+    fallbackName: string
+): ComponentSymbol[] {
+    const sourceFile = parseSourceFile(filePath, content, true);
+    const symbols = new Map<string, ComponentSymbol>();
+    const declarationNames = new Set<ts.Node>();
+
+    const addSymbol = (
+        name: string,
+        statement: ts.Node,
+        nameNode: ts.Node | undefined,
+        exportNames: string[]
+    ): void => {
+        if (nameNode) {
+            declarationNames.add(nameNode);
+        }
+        symbols.set(name, {
+            name,
+            exportNames,
+            isExported: exportNames.length > 0,
+            isReferencedLocally: false,
+            line: sourceFile.getLineAndCharacterOfPosition(statement.getStart(sourceFile)).line,
+            range: { start: statement.getFullStart(), end: statement.getEnd() },
+            exportRanges: []
+        });
+    };
+
+    for (const statement of sourceFile.statements) {
+        const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+        if (ts.isFunctionDeclaration(statement) && statement.body) {
+            const name = statement.name?.text;
+            if (name && isComponentName(name) && containsJsx(statement)) {
+                addSymbol(name, statement, statement.name,
+                    isExported ? [isDefault ? 'default' : name] : []);
+            } else if (!name && isDefault && containsJsx(statement)) {
+                addSymbol(fallbackName, statement, undefined, ['default']);
+            }
+        } else if (ts.isClassDeclaration(statement)) {
+            const name = statement.name?.text;
+            if (name && isComponentName(name) && isComponentClass(statement)) {
+                addSymbol(name, statement, statement.name,
+                    isExported ? [isDefault ? 'default' : name] : []);
+            } else if (!name && isDefault && isComponentClass(statement)) {
+                addSymbol(fallbackName, statement, undefined, ['default']);
+            }
+        } else if (ts.isVariableStatement(statement)) {
+            const declarations = statement.declarationList.declarations;
+            for (const declaration of declarations) {
+                if (!ts.isIdentifier(declaration.name) || !declaration.initializer) {
+                    continue;
+                }
+                const name = declaration.name.text;
+                if (isComponentName(name) && isComponentInitializer(declaration.initializer)) {
+                    // Only remove the whole statement when it declares a single binding
+                    const target = declarations.length === 1 ? statement : declaration;
+                    addSymbol(name, target, declaration.name, isExported ? [name] : []);
+                }
+            }
+        } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+            const expression = statement.expression;
+            if (ts.isIdentifier(expression)) {
+                continue;
+            }
+            if ((ts.isArrowFunction(expression) || ts.isFunctionExpression(expression) ||
+                 ts.isClassExpression(expression)) && containsJsx(expression)) {
+                addSymbol(fallbackName, statement, undefined, ['default']);
+            }
+        }
+    }
+
+    // Second pass: `export default Name`, `export { Name as Other }`
+    // and wrappers such as `export default memo(Name)`
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+            const expression = statement.expression;
+            if (ts.isIdentifier(expression)) {
+                const symbol = symbols.get(expression.text);
+                if (symbol) {
+                    symbol.exportNames.push('default');
+                    symbol.exportRanges.push({ start: statement.getFullStart(), end: statement.getEnd() });
+                    declarationNames.add(expression);
+                }
+            } else if (ts.isCallExpression(expression)) {
+                const visitWrapped = (node: ts.Node): void => {
+                    const symbol = ts.isIdentifier(node) ? symbols.get(node.text) : undefined;
+                    if (symbol && !symbol.exportNames.includes('default')) {
+                        symbol.exportNames.push('default');
+                    }
+                    ts.forEachChild(node, visitWrapped);
+                };
+                visitWrapped(expression);
+            }
+        } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier &&
+                   statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            const elements = statement.exportClause.elements;
+            elements.forEach((element, index) => {
+                const localName = (element.propertyName ?? element.name).text;
+                const symbol = symbols.get(localName);
+                if (!symbol) {
+                    return;
+                }
+
+                symbol.exportNames.push(element.name.text);
+                declarationNames.add(element.propertyName ?? element.name);
+
+                if (elements.length === 1) {
+                    symbol.exportRanges.push({ start: statement.getFullStart(), end: statement.getEnd() });
+                } else {
+                    // Remove the specifier together with its separating comma
+                    const isLast = index === elements.length - 1;
+                    symbol.exportRanges.push(isLast
+                        ? { start: elements[index - 1].getEnd(), end: element.getEnd() }
+                        : { start: element.getStart(sourceFile), end: elements[index + 1].getStart(sourceFile) });
+                }
+            });
+        }
+    }
+
+    for (const symbol of symbols.values()) {
+        symbol.isExported = symbol.exportNames.length > 0;
+    }
+
+    // Third pass: references from elsewhere in the same file
+    const visitReferences = (node: ts.Node): void => {
+        if (ts.isIdentifier(node) && !declarationNames.has(node)) {
+            const symbol = symbols.get(node.text);
+            const parent = node.parent;
+            const isPropertyName = parent &&
+                ((ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+                 (ts.isPropertyAssignment(parent) && parent.name === node));
+            if (symbol && !isPropertyName && !isWithinRange(node, symbol.range)) {
+                symbol.isReferencedLocally = true;
+            }
+        }
+        ts.forEachChild(node, visitReferences);
+    };
+    visitReferences(sourceFile);
+
+    return [...symbols.values()];
+}
+
+/**
+ * Checks whether a node lies inside a range
+ */
+function isWithinRange(node: ts.Node, range: SourceRange): boolean {
+    return node.pos >= range.start && node.end <= range.end;
+}
+
+/**
+ * Storybook CSF metadata from a story file's default export
+ */
+export interface StoryMeta {
+    title?: string;
+    componentName?: string;
+    componentSpecifier?: string;
+}
+
+/**
+ * Unwraps `satisfies`, `as` and parentheses around an expression
+ */
+function unwrapExpression(node: ts.Expression): ts.Expression {
+    while (ts.isSatisfiesExpression(node) || ts.isAsExpression(node) || ts.isParenthesizedExpression(node)) {
+        node = node.expression;
+    }
+    return node;
+}
+
+/**
+ * Reads the CSF `title` and `component` fields of a story file
+ * (`export default { title, component }` or `const meta = {...}; export default meta`)
+ * and the import specifier the component comes from
+ */
+export function extractStoryMeta(filePath: string, content: string): StoryMeta {
+    const sourceFile = parseSourceFile(filePath, content);
+    const meta: StoryMeta = {};
+    const variables = new Map<string, ts.Expression>();
+    const importedNames = new Map<string, string>();
+    let defaultExport: ts.Expression | undefined;
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isImportDeclaration(statement)) {
+            const specifier = getLiteralText(statement.moduleSpecifier);
+            const clause = statement.importClause;
+            if (specifier === undefined || !clause) continue;
+
+            if (clause.name) {
+                importedNames.set(clause.name.text, specifier);
+            }
+            if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+                for (const element of clause.namedBindings.elements) {
+                    importedNames.set(element.name.text, specifier);
+                }
+            }
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+                    variables.set(declaration.name.text, declaration.initializer);
+                }
+            }
+        } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+            defaultExport = statement.expression;
+        }
+    }
+
+    if (!defaultExport) {
+        return meta;
+    }
+
+    let metaObject = unwrapExpression(defaultExport);
+    if (ts.isIdentifier(metaObject) && variables.has(metaObject.text)) {
+        metaObject = unwrapExpression(variables.get(metaObject.text)!);
+    }
+
+    if (!ts.isObjectLiteralExpression(metaObject)) {
+        return meta;
+    }
+
+    for (const property of metaObject.properties) {
+        const name = property.name && ts.isIdentifier(property.name) ? property.name.text : undefined;
+
+        if (ts.isPropertyAssignment(property) && name === 'title') {
+            meta.title = getLiteralText(property.initializer);
+        } else if (name === 'component') {
+            const value = ts.isShorthandPropertyAssignment(property)
+                ? property.name
+                : ts.isPropertyAssignment(property) ? unwrapExpression(property.initializer) : undefined;
+
+            if (value && ts.isIdentifier(value)) {
+                meta.componentName = value.text;
+                meta.componentSpecifier = importedNames.get(value.text);
+            }
+        }
+    }
+
+    return meta;
+}
@@ -0,0 +1,384 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { UnusedComponentInfo } from './core';
+import { PRUNER_DATA_DIRECTORY } from './host';
+import { readDeletionSettings } from './settings';
+
+/**
+ * Where deleted files go: a restorable quarantine folder in the
+ * workspace folder, or the operating system's trash
+ */
+export type DeletionMethod = 'quarantine' | 'trash';
+
+/**
+ * Folder inside the extension's data folder holding one folder per batch
+ */
+const QUARANTINE_DIRECTORY = 'quarantine';
+
+/**
+ * Batch file recording where each quarantined file came from
+ */
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * A quarantined file, with both paths relative to its workspace folder
+ */
+export interface QuarantinedFile {
+    originalPath: string;
+    quarantinePath: string;
+}
+
+/**
+ * Files quarantined by one delete action
+ */
+export interface DeletionBatch {
+    id: string;
+    label: string;
+    createdAt: string;
+    folder: vscode.WorkspaceFolder;
+    files: QuarantinedFile[];
+}
+
+/**
+ * Outcome of removing files, by absolute path
+ */
+export interface RemovalResult {
+    removed: string[];
+    failed: Array<{ filePath: string; error: string }>;
+}
+
+/**
+ * Outcome of restoring a batch, by absolute path
+ */
+export interface RestoreResult {
+    restored: string[];
+    conflicts: string[];
+    failed: string[];
+}
+
+/**
+ * Removes files the way the deletion settings ask for, then the
+ * directories they leave empty. Files in one workspace folder are
+ * quarantined together as one restorable batch; files outside any
+ * workspace folder go to the trash.
+ */
+export async function removeFiles(filePaths: string[], label: string): Promise<RemovalResult> {
+    const result: RemovalResult = { removed: [], failed: [] };
+    const batchId = createBatchId();
+    const byFolder = new Map<vscode.WorkspaceFolder | undefined, string[]>();
+    for (const filePath of new Set(filePaths)) {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        byFolder.set(folder, [...(byFolder.get(folder) || []), filePath]);
+    }
+
+    for (const [folder, files] of byFolder) {
+        if (folder && readDeletionSettings(folder).method === 'quarantine') {
+            await quarantineFiles(folder, files, batchId, label, result);
+        } else {
+            await trashFiles(files, result);
+        }
+    }
+
+    if (result.removed.length > 0) {
+        await removeEmptyDirectories(result.removed);
+        await purgeExpiredBatches();
+    }
+
+    return result;
+}
+
+/**
+ * Asks to confirm removing components together with their sidecar files,
+ * offering to remove their story files too, since the safety check does
+ * not count stories as blocking. `message` opens the dialog and `verb`
+ * names the action, e.g. "Delete". Resolves with the sidecar and story
+ * files to remove with the components, or undefined when cancelled.
+ */
+export async function confirmRemoval(
+    components: Pick<UnusedComponentInfo, 'sidecarFiles' | 'storyFiles'>[],
+    message: string,
+    verb: string
+): Promise<string[] | undefined> {
+    const existing = (files: string[]): string[] => [...new Set(files)].filter(filePath => fs.existsSync(filePath));
+    const sidecarFiles = existing(components.flatMap(c => c.sidecarFiles || []));
+    const storyFiles = existing(components.flatMap(c => c.storyFiles || []));
+    const names = (files: string[]): string => files.map(filePath => path.basename(filePath)).join(', ');
+
+    let detail = message;
+    if (sidecarFiles.length > 0) {
+        detail += ` ${sidecarFiles.length} sidecar file(s) will be removed with ${components.length === 1 ? 'it' : 'them'}: ${names(sidecarFiles)}.`;
+    }
+    if (storyFiles.length > 0) {
+        detail += ` ${storyFiles.length} story file(s) belong to ${components.length === 1 ? 'it' : 'them'}: ${names(storyFiles)}.`;
+    }
+
+    const withStories = `${verb} with Stories`;
+    const result = await vscode.window.showWarningMessage(
+        detail,
+        { modal: true },
+        ...(storyFiles.length > 0
+            ? [withStories, `${verb} ${components.length === 1 ? 'Component' : 'Components'} Only`]
+            : [verb]),
+        'Cancel'
+    );
+
+    if (!result || result === 'Cancel') {
+        return undefined;
+    }
+    return result === withStories ? [...sidecarFiles, ...storyFiles] : sidecarFiles;
+}
+
+/**
+ * Lists the quarantined batches of all workspace folders, newest first
+ */
+export async function listDeletionBatches(): Promise<DeletionBatch[]> {
+    const batches: DeletionBatch[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(getQuarantineUri(folder));
+        } catch {
+            continue;
+        }
+
+        for (const [id, type] of entries) {
+            if (type !== vscode.FileType.Directory) {
+                continue;
+            }
+            const batch = await readManifest(folder, id);
+            if (batch) {
+                batches.push(batch);
+            }
+        }
+    }
+
+    return batches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Moves a batch's files back to where they were deleted from. Files whose
+ * original path is taken again stay quarantined; the batch is removed once
+ * no file is left in it.
+ */
+export async function restoreBatch(batch: DeletionBatch): Promise<RestoreResult> {
+    const result: RestoreResult = { restored: [], conflicts: [], failed: [] };
+    const remaining: QuarantinedFile[] = [];
+    const batchUri = vscode.Uri.joinPath(getQuarantineUri(batch.folder), batch.id);
+
+    for (const file of batch.files) {
+        const originalUri = vscode.Uri.joinPath(batch.folder.uri, file.originalPath);
+        if (await exists(originalUri)) {
+            result.conflicts.push(originalUri.fsPath);
+            remaining.push(file);
+            continue;
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(originalUri, '..'));
+            await vscode.workspace.fs.rename(vscode.Uri.joinPath(batchUri, file.quarantinePath), originalUri);
+            result.restored.push(originalUri.fsPath);
+        } catch (error) {
+            console.error(`Failed to restore ${originalUri.fsPath}:`, error);
+            result.failed.push(originalUri.fsPath);
+            remaining.push(file);
+        }
+    }
+
+    if (remaining.length === 0) {
+        await vscode.workspace.fs.delete(batchUri, { recursive: true, useTrash: false });
+    } else {
+        await writeManifest({ ...batch, files: remaining });
+    }
+
+    return result;
+}
+
+/**
+ * Permanently deletes batches older than each folder's retention period.
+ * A retention of 0 days keeps batches until they are restored.
+ */
+export async function purgeExpiredBatches(): Promise<number> {
+    let purged = 0;
+
+    for (const batch of await listDeletionBatches()) {
+        const { retentionDays } = readDeletionSettings(batch.folder);
+        const age = Date.now() - new Date(batch.createdAt).getTime();
+        if (retentionDays <= 0 || age < retentionDays * 24 * 60 * 60 * 1000) {
+            continue;
+        }
+
+        try {
+            await vscode.workspace.fs.delete(
+                vscode.Uri.joinPath(getQuarantineUri(batch.folder), batch.id),
+                { recursive: true, useTrash: false }
+            );
+            purged++;
+        } catch (error) {
+            console.error(`Failed to purge deletion batch ${batch.id}:`, error);
+        }
+    }
+
+    return purged;
+}
+
+/**
+ * Moves files into a new batch folder and records their original paths
+ */
+async function quarantineFiles(
+    folder: vscode.WorkspaceFolder,
+    filePaths: string[],
+    batchId: string,
+    label: string,
+    result: RemovalResult
+): Promise<void> {
+    const batch: DeletionBatch = { id: batchId, label, createdAt: new Date().toISOString(), folder, files: [] };
+    const batchUri = vscode.Uri.joinPath(getQuarantineUri(folder), batchId);
+    await ensureDataDirectory(folder);
+
+    for (const filePath of filePaths) {
+        const originalPath = path.relative(folder.uri.fsPath, filePath).replace(/\\/g, '/');
+        const quarantinePath = `files/${originalPath}`;
+        try {
+            const target = vscode.Uri.joinPath(batchUri, quarantinePath);
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+            await vscode.workspace.fs.rename(vscode.Uri.file(filePath), target);
+            batch.files.push({ originalPath, quarantinePath });
+            result.removed.push(filePath);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            result.failed.push({ filePath, error: errorMessage });
+        }
+    }
+
+    if (batch.files.length > 0) {
+        await writeManifest(batch);
+    }
+}
+
+/**
+ * Moves files to the operating system's trash
+ */
+async function trashFiles(filePaths: string[], result: RemovalResult): Promise<void> {
+    for (const filePath of filePaths) {
+        try {
+            await vscode.workspace.fs.delete(vscode.Uri.file(filePath), { useTrash: true });
+            result.removed.push(filePath);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            result.failed.push({ filePath, error: errorMessage });
+        }
+    }
+}
+
+/**
+ * Deletes the directories of removed files that are now empty, and their
+ * parents in turn, up to the workspace folder
+ */
+async function removeEmptyDirectories(filePaths: string[]): Promise<void> {
+    // Deepest first, so a parent is checked after its emptied children
+    const directories = [...new Set(filePaths.map(filePath => path.dirname(filePath)))]
+        .sort((a, b) => b.length - a.length);
+
+    for (let directory of directories) {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(directory));
+        if (!folder) {
+            continue;
+        }
+
+        while (isBelow(folder.uri.fsPath, directory)) {
+            try {
+                const uri = vscode.Uri.file(directory);
+                if ((await vscode.workspace.fs.readDirectory(uri)).length > 0) {
+                    break;
+                }
+                await vscode.workspace.fs.delete(uri, { recursive: false, useTrash: false });
+            } catch {
+                break;
+            }
+            directory = path.dirname(directory);
+        }
+    }
+}
+
+/**
+ * Creates the extension's data folder, ignored by git as a whole
+ */
+async function ensureDataDirectory(folder: vscode.WorkspaceFolder): Promise<void> {
+    const dataUri = vscode.Uri.joinPath(folder.uri, PRUNER_DATA_DIRECTORY);
+    const gitignoreUri = vscode.Uri.joinPath(dataUri, '.gitignore');
+    if (!(await exists(gitignoreUri))) {
+        await vscode.workspace.fs.createDirectory(dataUri);
+        await vscode.workspace.fs.writeFile(gitignoreUri, Buffer.from('*\n', 'utf-8'));
+    }
+}
+
+/**
+ * Reads a batch's manifest, or undefined when it is missing or invalid
+ */
+async function readManifest(folder: vscode.WorkspaceFolder, id: string): Promise<DeletionBatch | undefined> {
+    try {
+        const uri = vscode.Uri.joinPath(getQuarantineUri(folder), id, MANIFEST_FILE);
+        const manifest = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+        if (typeof manifest.createdAt !== 'string' || !Array.isArray(manifest.files)) {
+            return undefined;
+        }
+        return {
+            id,
+            label: typeof manifest.label === 'string' ? manifest.label : id,
+            createdAt: manifest.createdAt,
+            folder,
+            files: manifest.files
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Writes a batch's manifest
+ */
+async function writeManifest(batch: DeletionBatch): Promise<void> {
+    const { label, createdAt, files } = batch;
+    const uri = vscode.Uri.joinPath(getQuarantineUri(batch.folder), batch.id, MANIFEST_FILE);
+    await vscode.workspace.fs.writeFile(
+        uri,
+        Buffer.from(JSON.stringify({ label, createdAt, files }, null, 2), 'utf-8')
+    );
+}
+
+/**
+ * Gets a workspace folder's quarantine folder
+ */
+function getQuarantineUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, PRUNER_DATA_DIRECTORY, QUARANTINE_DIRECTORY);
+}
+
+/**
+ * Creates a batch id that sorts by creation time and is safe as a folder name
+ */
+function createBatchId(): string {
+    const random = Math.random().toString(36).slice(2, 6);
+    return `${new Date().toISOString().replace(/[:.]/g, '-')}-${random}`;
+}
+
+/**
+ * Checks whether a path is inside a folder, not the folder itself
+ */
+function isBelow(folder: string, filePath: string): boolean {
+    const relativePath = path.relative(folder, filePath);
+    return relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Checks whether a file or folder exists
+ */
+async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,304 @@
+import * as path from 'path';
+import { UnusedComponentInfo } from './core';
+
+/**
+ * Supported report formats
+ */
+export type ReportFormat = 'json' | 'csv' | 'markdown' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'markdown', 'sarif'];
+
+/**
+ * File extension used when saving each report format
+ */
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+    json: 'json',
+    csv: 'csv',
+    markdown: 'md',
+    sarif: 'sarif'
+};
+
+/**
+ * Options for building a report
+ */
+export interface ReportOptions {
+    projectRoot: string;
+    toolVersion?: string;
+}
+
+/**
+ * One unused component, with paths relative to the project root
+ */
+interface ReportEntry {
+    filePath: string;
+    componentName: string;
+    size: number;
+    lastModified: string;
+    line: number;
+    usage: string;
+    isSafe: boolean | null;
+    warnings: string[];
+    recommendations: string[];
+    dependents: string[];
+    storyFiles: string[];
+    testFiles: string[];
+}
+
+const TOOL_NAME = 'component-pruner';
+const TOOL_URI = 'https://github.com/amitkrg124/unused-component-detector';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * SARIF rules, one per usage status that ends up in the report
+ */
+const SARIF_RULES = [
+    {
+        id: 'unused-component',
+        name: 'UnusedComponent',
+        shortDescription: { text: 'Component is never imported' },
+        defaultConfiguration: { level: 'warning' }
+    },
+    {
+        id: 'stories-only-component',
+        name: 'StoriesOnlyComponent',
+        shortDescription: { text: 'Component is only used by Storybook stories' },
+        defaultConfiguration: { level: 'note' }
+    },
+    {
+        id: 'tests-only-component',
+        name: 'TestsOnlyComponent',
+        shortDescription: { text: 'Component is only used by tests' },
+        defaultConfiguration: { level: 'note' }
+    }
+];
+
+/**
+ * Converts an absolute path to a posix path relative to the project root
+ */
+function toRelativePath(projectRoot: string, filePath: string): string {
+    return path.relative(projectRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Converts a folder path to a `file://` URI ending in a slash
+ */
+function toFileUri(folderPath: string): string {
+    const posixPath = folderPath.replace(/\\/g, '/').replace(/\/?$/, '/');
+    return `file://${posixPath.startsWith('/') ? '' : '/'}${encodeURI(posixPath)}`;
+}
+
+/**
+ * Builds the report entries shared by all formats
+ */
+function buildEntries(components: UnusedComponentInfo[], projectRoot: string): ReportEntry[] {
+    const relative = (files: string[] = []): string[] => files.map(file => toRelativePath(projectRoot, file));
+
+    return components.map(component => ({
+        filePath: toRelativePath(projectRoot, component.filePath),
+        componentName: component.componentName,
+        size: component.size,
+        lastModified: new Date(component.lastModified).toISOString(),
+        line: (component.symbols?.[0]?.line ?? 0) + 1,
+        usage: component.usage || 'unused',
+        isSafe: component.isSafe ?? null,
+        warnings: component.safetyCheck?.warnings || [],
+        recommendations: component.safetyCheck?.recommendations || [],
+        dependents: relative(component.safetyCheck?.dependents),
+        storyFiles: relative(component.storyFiles),
+        testFiles: relative(component.testFiles)
+    }));
+}
+
+/**
+ * Formats the safety verdict for text reports
+ */
+function formatVerdict(isSafe: boolean | null): string {
+    return isSafe === true ? 'safe' : isSafe === false ? 'needs review' : 'unknown';
+}
+
+/**
+ * Lists every file that references a component
+ */
+function getImporters(entry: ReportEntry): string[] {
+    return [...new Set([...entry.dependents, ...entry.storyFiles, ...entry.testFiles])];
+}
+
+/**
+ * Quotes a CSV field when needed
+ */
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Escapes a Markdown table cell
+ */
+function escapeMarkdown(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Serializes entries as a JSON document
+ */
+function toJson(entries: ReportEntry[], options: ReportOptions): string {
+    return JSON.stringify(
+        {
+            tool: TOOL_NAME,
+            version: options.toolVersion,
+            generatedAt: new Date().toISOString(),
+            projectRoot: options.projectRoot,
+            unusedComponents: entries
+        },
+        null,
+        2
+    ) + '\n';
+}
+
+/**
+ * Serializes entries as CSV with one row per component
+ */
+function toCsv(entries: ReportEntry[]): string {
+    const header = ['file', 'component', 'size', 'usage', 'verdict', 'warnings', 'importers'];
+    const rows = entries.map(entry => [
+        entry.filePath,
+        entry.componentName,
+        String(entry.size),
+        entry.usage,
+        formatVerdict(entry.isSafe),
+        entry.warnings.join('; '),
+        getImporters(entry).join('; ')
+    ]);
+
+    return [header, ...rows]
+        .map(row => row.map(escapeCsv).join(','))
+        .join('\n') + '\n';
+}
+
+/**
+ * Serializes entries as a Markdown table
+ */
+function toMarkdown(entries: ReportEntry[]): string {
+    const lines = [
+        '# Unused Components',
+        '',
+        `${entries.length} unused component(s) found.`,
+        ''
+    ];
+
+    if (entries.length > 0) {
+        lines.push('| Component | File | Size (bytes) | Usage | Verdict | Warnings | Importers |');
+        lines.push('| --- | --- | ---: | --- | --- | --- | --- |');
+
+        for (const entry of entries) {
+            const cells = [
+                entry.componentName,
+                `\`${entry.filePath}\``,
+                String(entry.size),
+                entry.usage,
+                formatVerdict(entry.isSafe),
+                entry.warnings.join('<br>'),
+                getImporters(entry).map(file => `\`${file}\``).join('<br>')
+            ];
+            lines.push(`| ${cells.map(escapeMarkdown).join(' | ')} |`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes entries as a SARIF 2.1.0 log with one result per component file
+ */
+function toSarif(entries: ReportEntry[], options: ReportOptions): string {
+    const results = entries.map(entry => {
+        const rule = SARIF_RULES.find(candidate => candidate.id === `${entry.usage}-component`) || SARIF_RULES[0];
+        const usage = entry.usage === 'stories-only' ? 'is only used by stories'
+            : entry.usage === 'tests-only' ? 'is only used by tests' : 'is never imported';
+        const verdict = entry.isSafe === true ? 'is safe to delete'
+            : entry.isSafe === false ? 'needs review before deletion' : 'has not been safety checked';
+        let text = `${entry.componentName} ${usage} and ${verdict}.`;
+        if (entry.warnings.length > 0) {
+            text += ` Warnings: ${entry.warnings.join('; ')}.`;
+        }
+
+        return {
+            ruleId: rule.id,
+            level: rule.defaultConfiguration.level,
+            message: { text },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: encodeURI(entry.filePath), uriBaseId: '%SRCROOT%' },
+                        region: { startLine: entry.line }
+                    }
+                }
+            ],
+            properties: {
+                size: entry.size,
+                isSafe: entry.isSafe,
+                importers: getImporters(entry)
+            }
+        };
+    });
+
+    return JSON.stringify(
+        {
+            $schema: SARIF_SCHEMA,
+            version: '2.1.0',
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: TOOL_NAME,
+                            version: options.toolVersion,
+                            informationUri: TOOL_URI,
+                            rules: SARIF_RULES
+                        }
+                    },
+                    originalUriBaseIds: {
+                        '%SRCROOT%': { uri: toFileUri(options.projectRoot) }
+                    },
+                    results
+                }
+            ]
+        },
+        null,
+        2
+    ) + '\n';
+}
+
+/**
+ * Formats file size in human-readable format. Also embedded in the
+ * webview script, so it must not call other functions.
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    } else if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(2)} KB`;
+    } else {
+        return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    }
+}
+
+/**
+ * Serializes unused components to the given report format
+ */
+export function formatReport(
+    components: UnusedComponentInfo[],
+    format: ReportFormat,
+    options: ReportOptions
+): string {
+    const entries = buildEntries(components, options.projectRoot);
+
+    switch (format) {
+        case 'json':
+            return toJson(entries, options);
+        case 'csv':
+            return toCsv(entries);
+        case 'markdown':
+            return toMarkdown(entries);
+        case 'sarif':
+            return toSarif(entries, options);
+    }
+}
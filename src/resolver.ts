@@ -0,0 +1,802 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Extensions tried when resolving an extensionless import
+ */
+export const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Index files tried when an import points at a directory
+ */
+export const INDEX_FILES = ['index.tsx', 'index.ts', 'index.jsx', 'index.js'];
+
+/**
+ * A single `paths` mapping from a tsconfig/jsconfig file
+ */
+interface PathMapping {
+    prefix: string;
+    suffix: string;
+    hasWildcard: boolean;
+    targets: string[];
+}
+
+/**
+ * Alias settings resolved from a tsconfig/jsconfig file and its `extends` chain
+ */
+interface AliasConfig {
+    configPath: string;
+    baseUrl?: string;
+    mappings: PathMapping[];
+}
+
+/**
+ * Raw compiler options relevant to module resolution
+ */
+interface RawAliasOptions {
+    baseUrl?: string;
+    paths?: { [pattern: string]: string[] };
+    pathsBaseDir?: string;
+}
+
+/**
+ * The package.json fields used to resolve imports of a workspace package
+ */
+export interface PackageManifest {
+    name: string;
+    source?: string;
+    module?: string;
+    main?: string;
+    exports?: unknown;
+}
+
+/**
+ * A package discovered from the monorepo workspace configuration
+ */
+export interface WorkspacePackage {
+    name: string;
+    directory: string;
+    manifest: PackageManifest;
+}
+
+/**
+ * Matches tsconfig.json, tsconfig.app.json, jsconfig.json and friends
+ */
+const CONFIG_FILE_REGEX = /^(tsconfig|jsconfig)(\..+)?\.json$/i;
+
+/**
+ * Resolves an absolute candidate path to an existing source file,
+ * trying the path itself, common extensions and directory index files
+ */
+export function resolveModuleFile(candidate: string): string | undefined {
+    try {
+        if (fs.existsSync(candidate)) {
+            if (!fs.statSync(candidate).isDirectory()) {
+                return candidate;
+            }
+
+            for (const indexFile of INDEX_FILES) {
+                const indexPath = path.join(candidate, indexFile);
+                if (fs.existsSync(indexPath)) {
+                    return indexPath;
+                }
+            }
+        }
+
+        for (const ext of MODULE_EXTENSIONS) {
+            const testPath = candidate + ext;
+            if (fs.existsSync(testPath)) {
+                return testPath;
+            }
+        }
+
+        for (const indexFile of INDEX_FILES) {
+            const indexPath = path.join(candidate, indexFile);
+            if (fs.existsSync(indexPath)) {
+                return indexPath;
+            }
+        }
+    } catch {
+        // Unreadable path, treat as unresolved
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks whether a parsed JSON value is a plain object
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses JSON with comments and trailing commas (tsconfig flavour)
+ */
+export function parseJsonc(text: string): unknown {
+    let output = '';
+    let inString = false;
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        const next = text[i + 1];
+
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                output += next ?? '';
+                i += 2;
+                continue;
+            }
+            if (char === '"') {
+                inString = false;
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+            output += char;
+            i++;
+        } else if (char === '/' && next === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+        } else if (char === '/' && next === '*') {
+            i += 2;
+            while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) {
+                i++;
+            }
+            i += 2;
+        } else {
+            output += char;
+            i++;
+        }
+    }
+
+    // Remove trailing commas before closing brackets
+    output = output.replace(/,(\s*[}\]])/g, '$1');
+
+    return JSON.parse(output);
+}
+
+/**
+ * Reads the fields of a package.json used for resolution, or undefined
+ * when it has no name
+ */
+function readPackageManifest(manifestPath: string): PackageManifest | undefined {
+    const json: unknown = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (!isJsonObject(json) || typeof json.name !== 'string') {
+        return undefined;
+    }
+
+    const readString = (field: string): string | undefined => {
+        const value = json[field];
+        return typeof value === 'string' ? value : undefined;
+    };
+
+    return {
+        name: json.name,
+        source: readString('source'),
+        module: readString('module'),
+        main: readString('main'),
+        exports: json.exports
+    };
+}
+
+/**
+ * Output folders that usually mirror a package's `src` folder
+ */
+const BUILD_DIRS = ['dist', 'lib', 'build', 'out', 'esm', 'cjs', 'es'];
+
+/**
+ * Export conditions tried in order when resolving `exports` to source
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'require', 'default', 'types'];
+
+/**
+ * Extracts the `packages` list from a pnpm-workspace.yaml file
+ */
+export function parsePnpmWorkspace(text: string): string[] {
+    const packages: string[] = [];
+    let inPackages = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/\s+#.*$/, '');
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        if (/^\S/.test(line)) {
+            inPackages = /^packages\s*:/.test(line);
+            continue;
+        }
+
+        const item = line.match(/^\s*-\s*(.+?)\s*$/);
+        if (inPackages && item) {
+            packages.push(item[1].replace(/^['"]|['"]$/g, ''));
+        }
+    }
+
+    return packages;
+}
+
+/**
+ * Converts a single glob path segment (e.g. `ui-*`) to a regex
+ */
+function segmentToRegex(segment: string): RegExp {
+    const escaped = segment
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]');
+    return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Expands a workspace glob (`packages/*`, `apps/**`) to directories
+ */
+function expandWorkspaceGlob(root: string, pattern: string): string[] {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(Boolean);
+    const results: string[] = [];
+
+    const listDirs = (dir: string): string[] => {
+        try {
+            return fs.readdirSync(dir, { withFileTypes: true })
+                .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+                .map(entry => entry.name);
+        } catch {
+            return [];
+        }
+    };
+
+    const walk = (dir: string, index: number): void => {
+        if (index === segments.length) {
+            results.push(dir);
+            return;
+        }
+
+        const segment = segments[index];
+        if (segment === '**') {
+            walk(dir, index + 1);
+            for (const child of listDirs(dir)) {
+                walk(path.join(dir, child), index);
+            }
+            return;
+        }
+
+        if (!/[*?]/.test(segment)) {
+            const next = path.join(dir, segment);
+            if (fs.existsSync(next)) {
+                walk(next, index + 1);
+            }
+            return;
+        }
+
+        const regex = segmentToRegex(segment);
+        for (const child of listDirs(dir)) {
+            if (regex.test(child)) {
+                walk(path.join(dir, child), index + 1);
+            }
+        }
+    };
+
+    walk(root, 0);
+    return results;
+}
+
+/**
+ * ModuleResolver class for resolving non-relative import specifiers
+ * (tsconfig/jsconfig `baseUrl` and `paths` aliases, monorepo workspace
+ * packages) to project files
+ */
+export class ModuleResolver {
+    private projectRoot: string;
+    private configsByDir: Map<string, AliasConfig[]> = new Map();
+    private parsedConfigs: Map<string, RawAliasOptions | null> = new Map();
+    private workspacePackages: WorkspacePackage[] | null = null;
+
+    constructor(projectRoot: string) {
+        this.projectRoot = projectRoot;
+    }
+
+    /**
+     * Resolves a bare/aliased specifier imported from sourceFile.
+     * Returns undefined when the specifier does not map to a project file.
+     */
+    resolve(importPath: string, sourceFile: string): string | undefined {
+        return this.resolveAlias(importPath, sourceFile) ??
+               this.resolveWorkspacePackage(importPath);
+    }
+
+    /**
+     * Resolves a specifier through tsconfig/jsconfig `baseUrl` and `paths`
+     */
+    resolveAlias(importPath: string, sourceFile: string): string | undefined {
+        for (const config of this.getConfigsForFile(sourceFile)) {
+            const resolved = this.resolveWithConfig(importPath, config);
+            if (resolved) {
+                return resolved;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves `@scope/pkg` or `@scope/pkg/sub/path` to a file inside a
+     * workspace package, preferring source files over build output
+     */
+    resolveWorkspacePackage(importPath: string): string | undefined {
+        const pkg = this.getWorkspacePackages()
+            .filter(p => importPath === p.name || importPath.startsWith(`${p.name}/`))
+            .sort((a, b) => b.name.length - a.name.length)[0];
+
+        if (!pkg) {
+            return undefined;
+        }
+
+        const subpath = importPath === pkg.name ? '.' : `.${importPath.slice(pkg.name.length)}`;
+        const manifest = pkg.manifest;
+
+        if (manifest.exports !== undefined && manifest.exports !== null) {
+            const target = this.resolveExportsTarget(manifest.exports, subpath);
+            return target ? this.resolvePackageTarget(pkg.directory, target) : undefined;
+        }
+
+        if (subpath === '.') {
+            for (const target of [manifest.source, manifest.module, manifest.main]) {
+                if (target !== undefined) {
+                    const resolved = this.resolvePackageTarget(pkg.directory, target);
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+
+            return this.resolvePackageTarget(pkg.directory, './src/index') ??
+                   this.resolvePackageTarget(pkg.directory, './index');
+        }
+
+        return this.resolvePackageTarget(pkg.directory, subpath) ??
+               this.resolvePackageTarget(pkg.directory, `./src/${subpath.slice(2)}`);
+    }
+
+    /**
+     * Gets packages declared by `workspaces` in package.json or by
+     * pnpm-workspace.yaml in the nearest workspace root
+     */
+    getWorkspacePackages(): WorkspacePackage[] {
+        if (this.workspacePackages) {
+            return this.workspacePackages;
+        }
+
+        const packages: WorkspacePackage[] = [];
+        const workspaceRoot = this.findWorkspaceRoot();
+
+        if (workspaceRoot) {
+            const includes: string[] = [];
+            const excludes: string[] = [];
+
+            for (const pattern of this.readWorkspacePatterns(workspaceRoot)) {
+                if (pattern.startsWith('!')) {
+                    excludes.push(...expandWorkspaceGlob(workspaceRoot, pattern.slice(1)));
+                } else {
+                    includes.push(...expandWorkspaceGlob(workspaceRoot, pattern));
+                }
+            }
+
+            const seen = new Set<string>();
+            for (const directory of includes) {
+                if (excludes.includes(directory) || seen.has(directory)) {
+                    continue;
+                }
+                seen.add(directory);
+
+                try {
+                    const manifest = readPackageManifest(path.join(directory, 'package.json'));
+                    if (manifest) {
+                        packages.push({ name: manifest.name, directory, manifest });
+                    }
+                } catch {
+                    // Not a package folder
+                }
+            }
+        }
+
+        this.workspacePackages = packages;
+        return packages;
+    }
+
+    /**
+     * Clears cached config lookups
+     */
+    clearCache(): void {
+        this.configsByDir.clear();
+        this.parsedConfigs.clear();
+        this.workspacePackages = null;
+    }
+
+    /**
+     * Finds the nearest directory at or above the project root that
+     * declares workspaces
+     */
+    private findWorkspaceRoot(): string | undefined {
+        let dir = path.resolve(this.projectRoot);
+
+        while (true) {
+            if (this.readWorkspacePatterns(dir).length > 0) {
+                return dir;
+            }
+
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return undefined;
+            }
+            dir = parent;
+        }
+    }
+
+    /**
+     * Reads workspace globs from package.json and pnpm-workspace.yaml
+     */
+    private readWorkspacePatterns(dir: string): string[] {
+        const patterns: string[] = [];
+
+        try {
+            const manifest: unknown = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+            const declared = isJsonObject(manifest) ? manifest.workspaces : undefined;
+            // Either a list of globs or Yarn's `{ packages: [...] }` form
+            const workspaces = isJsonObject(declared) ? declared.packages : declared;
+            if (Array.isArray(workspaces)) {
+                patterns.push(...workspaces.filter((w): w is string => typeof w === 'string'));
+            }
+        } catch {
+            // No package.json or invalid JSON
+        }
+
+        try {
+            patterns.push(...parsePnpmWorkspace(
+                fs.readFileSync(path.join(dir, 'pnpm-workspace.yaml'), 'utf-8')
+            ));
+        } catch {
+            // No pnpm workspace
+        }
+
+        return patterns;
+    }
+
+    /**
+     * Resolves a package.json `exports` field for a subpath (`.`, `./Button`)
+     */
+    private resolveExportsTarget(exportsField: unknown, subpath: string): string | undefined {
+        // Anything but an object keyed by subpaths is the `.` export itself
+        if (!isJsonObject(exportsField) || !Object.keys(exportsField).some(key => key.startsWith('.'))) {
+            return subpath === '.' ? this.pickCondition(exportsField) : undefined;
+        }
+
+        if (exportsField[subpath] !== undefined) {
+            return this.pickCondition(exportsField[subpath]);
+        }
+
+        // Subpath patterns such as "./*" or "./components/*.js"
+        const patterns = Object.keys(exportsField)
+            .filter(key => key.includes('*'))
+            .sort((a, b) => b.indexOf('*') - a.indexOf('*'));
+
+        for (const key of patterns) {
+            const [prefix, suffix] = key.split('*');
+            if (subpath.startsWith(prefix) && subpath.endsWith(suffix) &&
+                subpath.length >= prefix.length + suffix.length) {
+                const captured = subpath.slice(prefix.length, subpath.length - suffix.length);
+                const target = this.pickCondition(exportsField[key]);
+                return target?.replace(/\*/g, captured);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Picks a target from an exports value (string, array or conditions object)
+     */
+    private pickCondition(value: unknown): string | undefined {
+        if (typeof value === 'string') {
+            return value;
+        }
+
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                const picked = this.pickCondition(item);
+                if (picked) {
+                    return picked;
+                }
+            }
+            return undefined;
+        }
+
+        if (isJsonObject(value)) {
+            for (const condition of EXPORT_CONDITIONS) {
+                if (value[condition] !== undefined) {
+                    const picked = this.pickCondition(value[condition]);
+                    if (picked) {
+                        return picked;
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves a package-relative target, mapping build output such as
+     * `./dist/Button.js` back to `./src/Button.tsx` when the source exists
+     */
+    private resolvePackageTarget(packageDir: string, target: string): string | undefined {
+        const normalized = target.replace(/^\.\//, '').replace(/\.d\.ts$/, '');
+        const withoutExt = normalized.replace(/\.(mjs|cjs|js|jsx|ts|tsx)$/, '');
+        const segments = withoutExt.split('/');
+        const candidates: string[] = [];
+
+        if (BUILD_DIRS.includes(segments[0])) {
+            candidates.push(path.join(packageDir, 'src', ...segments.slice(1)));
+        }
+        candidates.push(path.join(packageDir, normalized), path.join(packageDir, withoutExt));
+
+        for (const candidate of candidates) {
+            const resolved = this.resolveInProject(candidate);
+            if (resolved) {
+                return resolved;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves a specifier against a single alias config
+     */
+    private resolveWithConfig(importPath: string, config: AliasConfig): string | undefined {
+        // TypeScript prefers the pattern with the longest matching prefix
+        const matching = config.mappings
+            .filter(mapping => this.matchesPattern(importPath, mapping))
+            .sort((a, b) => b.prefix.length - a.prefix.length);
+
+        for (const mapping of matching) {
+            const captured = mapping.hasWildcard
+                ? importPath.slice(mapping.prefix.length, importPath.length - mapping.suffix.length)
+                : '';
+
+            for (const target of mapping.targets) {
+                const candidate = target.replace('*', captured);
+                const resolved = this.resolveInProject(candidate);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+
+        if (config.baseUrl) {
+            return this.resolveInProject(path.resolve(config.baseUrl, importPath));
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Checks whether a specifier matches a `paths` pattern
+     */
+    private matchesPattern(importPath: string, mapping: PathMapping): boolean {
+        if (!mapping.hasWildcard) {
+            return importPath === mapping.prefix;
+        }
+
+        return importPath.length >= mapping.prefix.length + mapping.suffix.length &&
+               importPath.startsWith(mapping.prefix) &&
+               importPath.endsWith(mapping.suffix);
+    }
+
+    /**
+     * Resolves a candidate path, ignoring anything inside node_modules
+     */
+    private resolveInProject(candidate: string): string | undefined {
+        const resolved = resolveModuleFile(candidate);
+        if (!resolved || resolved.split(path.sep).includes('node_modules')) {
+            return undefined;
+        }
+        return resolved;
+    }
+
+    /**
+     * Gets the alias configs that apply to a file: every tsconfig/jsconfig
+     * in the nearest ancestor directory (up to the project root) that has one
+     */
+    private getConfigsForFile(filePath: string): AliasConfig[] {
+        let dir = path.dirname(filePath);
+        const root = path.resolve(this.projectRoot);
+        const visited: string[] = [];
+
+        while (true) {
+            const cached = this.configsByDir.get(dir);
+            if (cached) {
+                visited.forEach(d => this.configsByDir.set(d, cached));
+                return cached;
+            }
+
+            visited.push(dir);
+            const configs = this.loadConfigsInDir(dir);
+            if (configs.length > 0) {
+                visited.forEach(d => this.configsByDir.set(d, configs));
+                return configs;
+            }
+
+            const parent = path.dirname(dir);
+            if (dir === root || parent === dir || !dir.startsWith(root)) {
+                break;
+            }
+            dir = parent;
+        }
+
+        visited.forEach(d => this.configsByDir.set(d, []));
+        return [];
+    }
+
+    /**
+     * Loads all tsconfig/jsconfig files in a directory.
+     * tsconfig.json comes first, then variants (tsconfig.app.json...), then jsconfig.json
+     */
+    private loadConfigsInDir(dir: string): AliasConfig[] {
+        let entries: string[];
+        try {
+            entries = fs.readdirSync(dir).filter(name => CONFIG_FILE_REGEX.test(name));
+        } catch {
+            return [];
+        }
+
+        const rank = (name: string): number => {
+            const lower = name.toLowerCase();
+            if (lower === 'tsconfig.json') return 0;
+            if (lower.startsWith('tsconfig')) return 1;
+            if (lower === 'jsconfig.json') return 2;
+            return 3;
+        };
+        entries.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+
+        const configs: AliasConfig[] = [];
+        for (const entry of entries) {
+            const configPath = path.join(dir, entry);
+            const options = this.readConfig(configPath, new Set());
+            if (!options || (!options.baseUrl && !options.paths)) {
+                continue;
+            }
+
+            configs.push(this.toAliasConfig(configPath, options));
+        }
+
+        return configs;
+    }
+
+    /**
+     * Converts raw options into resolved alias mappings
+     */
+    private toAliasConfig(configPath: string, options: RawAliasOptions): AliasConfig {
+        // `paths` are relative to baseUrl when set, otherwise to the config that declared them
+        const pathsBase = options.baseUrl || options.pathsBaseDir || path.dirname(configPath);
+        const mappings: PathMapping[] = [];
+
+        for (const [pattern, targets] of Object.entries(options.paths || {})) {
+            if (!Array.isArray(targets)) {
+                continue;
+            }
+
+            const starIndex = pattern.indexOf('*');
+            mappings.push({
+                prefix: starIndex === -1 ? pattern : pattern.slice(0, starIndex),
+                suffix: starIndex === -1 ? '' : pattern.slice(starIndex + 1),
+                hasWildcard: starIndex !== -1,
+                targets: targets.map(target => path.resolve(pathsBase, target))
+            });
+        }
+
+        return {
+            configPath,
+            baseUrl: options.baseUrl,
+            mappings
+        };
+    }
+
+    /**
+     * Reads a config file and merges alias options along its `extends` chain
+     */
+    private readConfig(configPath: string, seen: Set<string>): RawAliasOptions | null {
+        if (this.parsedConfigs.has(configPath)) {
+            return this.parsedConfigs.get(configPath)!;
+        }
+
+        if (seen.has(configPath)) {
+            return null;
+        }
+        seen.add(configPath);
+
+        let json: unknown;
+        try {
+            json = parseJsonc(fs.readFileSync(configPath, 'utf-8'));
+        } catch {
+            this.parsedConfigs.set(configPath, null);
+            return null;
+        }
+
+        const configDir = path.dirname(configPath);
+        let merged: RawAliasOptions = {};
+
+        const config = isJsonObject(json) ? json : {};
+        const bases: unknown[] = config.extends === undefined
+            ? []
+            : Array.isArray(config.extends) ? config.extends : [config.extends];
+
+        for (const base of bases) {
+            if (typeof base !== 'string') {
+                continue;
+            }
+            const basePath = this.resolveExtends(base, configDir);
+            const baseOptions = basePath ? this.readConfig(basePath, seen) : null;
+            if (baseOptions) {
+                merged = { ...merged, ...baseOptions };
+            }
+        }
+
+        const compilerOptions = isJsonObject(config.compilerOptions) ? config.compilerOptions : {};
+        if (typeof compilerOptions.baseUrl === 'string') {
+            merged.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+        }
+        if (isJsonObject(compilerOptions.paths)) {
+            const paths: { [pattern: string]: string[] } = {};
+            for (const [pattern, targets] of Object.entries(compilerOptions.paths)) {
+                if (Array.isArray(targets)) {
+                    paths[pattern] = targets.filter((target): target is string => typeof target === 'string');
+                }
+            }
+            merged.paths = paths;
+            merged.pathsBaseDir = configDir;
+        }
+
+        this.parsedConfigs.set(configPath, merged);
+        return merged;
+    }
+
+    /**
+     * Resolves an `extends` value (relative file or package) to a config path
+     */
+    private resolveExtends(specifier: string, configDir: string): string | undefined {
+        const candidates: string[] = [];
+
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            const base = path.resolve(configDir, specifier);
+            candidates.push(base, `${base}.json`, path.join(base, 'tsconfig.json'));
+        } else {
+            let dir = configDir;
+            while (true) {
+                const base = path.join(dir, 'node_modules', specifier);
+                candidates.push(base, `${base}.json`, path.join(base, 'tsconfig.json'));
+
+                const parent = path.dirname(dir);
+                if (parent === dir) break;
+                dir = parent;
+            }
+        }
+
+        for (const candidate of candidates) {
+            try {
+                if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                    return candidate;
+                }
+            } catch {
+                continue;
+            }
+        }
+
+        return undefined;
+    }
+}
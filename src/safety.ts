@@ -1,7 +1,11 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
-import { DependencyGraph } from './analyzer';
+import { DependencyGraph, DEFAULT_ENTRY_FILES } from './analyzer';
+import { ProjectHost } from './host';
 import { getCachedContent } from './scanner';
+import { collectFiles, FileSetOptions, findProjectFiles, warnFileLimit } from './fileSet';
+import { resolveModuleFile } from './resolver';
+import { FrameworkConventions, FRAMEWORK_NAMES } from './frameworks';
+import { isStoryFile, isTestFile } from './importers';
 
 /**
  * Result of a safety check for component deletion
@@ -19,20 +23,44 @@ export interface SafetyCheckResult {
 export interface SafetyCheckOptions {
     checkStringReferences?: boolean;
     checkTestFiles?: boolean;
+    checkIndexExports?: boolean;
+    checkFrameworkConventions?: boolean;
     ignorePatterns?: string[];
+    testPatterns?: string[];
+    maxFiles?: number;
+    entryFiles?: string[];
 }
 
+/**
+ * Default safety checks; string references are off because they read every project file
+ */
+export const DEFAULT_SAFETY_CHECKS: Required<Pick<
+    SafetyCheckOptions,
+    'checkStringReferences' | 'checkTestFiles' | 'checkIndexExports' | 'checkFrameworkConventions'
+>> = {
+    checkStringReferences: false,
+    checkTestFiles: true,
+    checkIndexExports: true,
+    checkFrameworkConventions: true
+};
+
 /**
  * SafetyChecker class for verifying component deletion safety
  * Optimized with caching and reduced file operations
  */
 export class SafetyChecker {
     private projectRoot: string;
+    private host: ProjectHost;
     private cachedFiles: Map<string, string[]> = new Map();
     private cachedIndexFiles: string[] | null = null;
+    private conventions: FrameworkConventions;
+    private fileSet: FileSetOptions;
 
-    constructor(projectRoot: string) {
+    constructor(projectRoot: string, host: ProjectHost, fileSet: FileSetOptions = {}) {
         this.projectRoot = projectRoot;
+        this.host = host;
+        this.fileSet = fileSet;
+        this.conventions = new FrameworkConventions(projectRoot);
     }
 
     /**
@@ -43,20 +71,39 @@ export class SafetyChecker {
         componentPath: string,
         dependencyGraph: DependencyGraph,
         _allContent?: Map<string, string>,
-        _options?: SafetyCheckOptions
+        options?: SafetyCheckOptions
     ): Promise<SafetyCheckResult> {
         const warnings: string[] = [];
         const dependents: string[] = [];
         const recommendations: string[] = [];
+        const checks = { ...DEFAULT_SAFETY_CHECKS, ...options };
 
         try {
             const componentName = this.extractComponentName(componentPath);
             const directDependents = dependencyGraph[componentPath] || [];
             dependents.push(...directDependents);
 
-            if (directDependents.length > 0) {
-                const testFiles = directDependents.filter(file => this.isTestFile(file));
-                const nonTestFiles = directDependents.filter(file => !this.isTestFile(file));
+            // Stories are deleted together with the component, so they don't block deletion
+            const storyFiles = directDependents.filter(file => isStoryFile(file));
+            const blockingDependents = directDependents.filter(
+                file => !isStoryFile(file) && (checks.checkTestFiles || !this.isTestFile(file, options))
+            );
+
+            if (storyFiles.length > 0) {
+                warnings.push(
+                    `Component is used by ${storyFiles.length} story file(s):`
+                );
+                storyFiles.slice(0, 5).forEach(file => {
+                    warnings.push(`  - ${this.getRelativePath(file)}`);
+                });
+                recommendations.push(
+                    `Delete the ${storyFiles.length} story file(s) together with the component`
+                );
+            }
+
+            if (blockingDependents.length > 0) {
+                const testFiles = blockingDependents.filter(file => this.isTestFile(file, options));
+                const nonTestFiles = blockingDependents.filter(file => !this.isTestFile(file, options));
 
                 if (nonTestFiles.length > 0) {
                     warnings.push(
@@ -84,7 +131,9 @@ export class SafetyChecker {
             }
 
             // Check index exports (quick check using cached content)
-            const indexExports = await this.checkIndexExportsFast(componentPath, componentName);
+            const indexExports = checks.checkIndexExports
+                ? await this.checkIndexExportsFast(componentPath, componentName)
+                : [];
             if (indexExports.length > 0) {
                 warnings.push(
                     `Component is exported from ${indexExports.length} index file(s)`
@@ -92,8 +141,46 @@ export class SafetyChecker {
                 recommendations.push('Remove exports from index files before deleting');
             }
 
+            // Entry files are loaded by the bundler or index.html, not imported
+            const isEntryFile = this.isEntryFile(componentPath, options?.entryFiles || DEFAULT_ENTRY_FILES);
+            if (isEntryFile) {
+                warnings.push(
+                    `"${this.getRelativePath(componentPath)}" is an entry file of the app`
+                );
+                recommendations.push('Deleting an entry file breaks the build; only do so intentionally');
+            }
+
+            // Routes, layouts and _app files are loaded by the framework, not imported
+            const framework = checks.checkFrameworkConventions
+                ? this.conventions.getFrameworkForFile(componentPath)
+                : undefined;
+            if (framework) {
+                warnings.push(
+                    `"${this.getRelativePath(componentPath)}" is a ${FRAMEWORK_NAMES[framework]} convention file loaded by the framework (route, layout or entry)`
+                );
+                recommendations.push('Deleting this file removes a route or app shell; only do so intentionally');
+            }
+
+            // Components looked up by name (registries, CMS configs, lazy maps)
+            const stringReferences = checks.checkStringReferences
+                ? await this.findStringReferences(componentPath, componentName, options?.maxFiles)
+                : [];
+            if (stringReferences.length > 0) {
+                warnings.push(
+                    `"${componentName}" appears as a string in ${stringReferences.length} file(s):`
+                );
+                stringReferences.slice(0, 5).forEach(file => {
+                    warnings.push(`  - ${this.getRelativePath(file)}`);
+                });
+                recommendations.push('Check whether the component is looked up by name before deleting');
+            }
+
             // Determine if deletion is safe
-            const isSafe = directDependents.length === 0 && indexExports.length === 0;
+            const isSafe = blockingDependents.length === 0 &&
+                indexExports.length === 0 &&
+                stringReferences.length === 0 &&
+                !isEntryFile &&
+                !framework;
 
             if (!isSafe) {
                 recommendations.unshift('Review all warnings before deleting this component');
@@ -121,6 +208,26 @@ export class SafetyChecker {
         }
     }
 
+    /**
+     * Gets the index files (barrels) outside the component's folder that
+     * re-export it
+     */
+    async findIndexExports(componentPath: string): Promise<string[]> {
+        return this.checkIndexExportsFast(componentPath, this.extractComponentName(componentPath));
+    }
+
+    /**
+     * Checks whether a file is one of the entry files, given relative to
+     * the project root
+     */
+    private isEntryFile(filePath: string, entryFiles: string[]): boolean {
+        const target = path.resolve(filePath);
+        return entryFiles.some(entry => {
+            const resolved = resolveModuleFile(path.resolve(this.projectRoot, entry));
+            return resolved !== undefined && path.resolve(resolved) === target;
+        });
+    }
+
     /**
      * Fast check for index exports using cached content
      */
@@ -179,34 +286,62 @@ export class SafetyChecker {
     }
 
     /**
-     * Find all index files once and cache them
+     * Finds files that mention the component name as a string literal
      */
-    private async findIndexFiles(): Promise<string[]> {
-        const files: string[] = [];
-
-        try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) return files;
-
-            for (const workspaceFolder of workspaceFolders) {
-                const pattern = new vscode.RelativePattern(
-                    workspaceFolder,
-                    '**/index.{js,jsx,ts,tsx}'
-                );
-
-                const foundFiles = await vscode.workspace.findFiles(
-                    pattern,
+    private async findStringReferences(
+        componentPath: string,
+        componentName: string,
+        maxFiles?: number
+    ): Promise<string[]> {
+        if (!this.cachedFiles.has('stringReferences')) {
+            const files: string[] = [];
+            const limitedRoots: string[] = [];
+            for (const rootFolder of this.host.getRootFolders()) {
+                const found = await collectFiles(
+                    this.host,
+                    rootFolder,
+                    '**/*.{js,jsx,ts,tsx,json}',
                     '**/node_modules/**',
-                    500
+                    maxFiles || undefined
                 );
+                files.push(...found.files);
+                if (found.limitReached) {
+                    limitedRoots.push(rootFolder);
+                }
+            }
+            if (limitedRoots.length > 0 && maxFiles) {
+                warnFileLimit(this.host, limitedRoots, maxFiles);
+            }
+            this.cachedFiles.set('stringReferences', files);
+        }
 
-                files.push(...foundFiles.map(f => f.fsPath));
+        const literals = ['\'', '"', '`'].map(quote => `${quote}${componentName}${quote}`);
+        const references: string[] = [];
+
+        for (const file of this.cachedFiles.get('stringReferences')!) {
+            if (file === componentPath) {
+                continue;
+            }
+
+            const content = await getCachedContent(file);
+            if (literals.some(literal => content.includes(literal))) {
+                references.push(file);
             }
+        }
+
+        return references;
+    }
+
+    /**
+     * Find all index files in the shared file set once and cache them
+     */
+    private async findIndexFiles(): Promise<string[]> {
+        try {
+            return await findProjectFiles(this.host, this.fileSet, '**/index.{js,jsx,ts,tsx}');
         } catch (error) {
             console.error('Error finding index files:', error);
+            return [];
         }
-
-        return files;
     }
 
     /**
@@ -238,17 +373,10 @@ export class SafetyChecker {
     }
 
     /**
-     * Checks if a file is a test file
+     * Checks if a file is a test file using the configured test patterns
      */
-    private isTestFile(filePath: string): boolean {
-        const fileName = path.basename(filePath).toLowerCase();
-        const dirPath = path.dirname(filePath).toLowerCase();
-
-        return dirPath.includes('test') ||
-               dirPath.includes('__tests__') ||
-               dirPath.includes('spec') ||
-               fileName.includes('.test.') ||
-               fileName.includes('.spec.');
+    private isTestFile(filePath: string, options?: SafetyCheckOptions): boolean {
+        return isTestFile(filePath, this.projectRoot, options?.testPatterns);
     }
 
     /**
@@ -275,5 +403,6 @@ export class SafetyChecker {
     clearCache(): void {
         this.cachedFiles.clear();
         this.cachedIndexFiles = null;
+        this.conventions.clearCache();
     }
 }
@@ -1,9 +1,19 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { ComponentSymbol } from './parser';
+import { isTestFile } from './importers';
+import { getRootFolderFor, ProjectHost } from './host';
+import { getIgnoreInfo, IgnoreInfo, loadPrunerConfig, PrunerConfig } from './ignore';
+import { collectFiles, FileSetOptions, findProjectFiles, isIncludedFile, warnFileLimit } from './fileSet';
+import { matchesGlob } from './glob';
+import { FileIndex } from './fileIndex';
+import { ComponentTaskResult, detectComponentContent } from './parseWorker';
+import { MIN_FILES_FOR_WORKERS, ParserPool } from './workerPool';
 
 /**
- * Information about a React component
+ * Information about a React component file.
+ * `symbols` lists every component declared in it (exported or not),
+ * `ignored` is set when `.componentprunerrc` or an annotation excludes it
  */
 export interface ComponentInfo {
     filePath: string;
@@ -11,16 +21,33 @@ export interface ComponentInfo {
     componentName: string;
     size: number;
     lastModified: Date;
+    symbols: ComponentSymbol[];
+    ignored?: IgnoreInfo;
 }
 
 /**
- * Options for scanning components
+ * Options for scanning components.
+ * Files matching `testPatterns` are never treated as components;
+ * files unchanged since they were recorded in `fileIndex` are not parsed again,
+ * and large scans parse in `parserPool` workers.
  */
-export interface ScanOptions {
-    excludePatterns?: string[];
-    includePatterns?: string[];
+export interface ScanOptions extends FileSetOptions {
+    testPatterns?: string[];
+    fileIndex?: FileIndex;
+    parserPool?: ParserPool;
 }
 
+/**
+ * Files in the project file set that are never components
+ */
+const SKIPPED_FILE_PATTERNS = [
+    '**/*.d.ts',
+    '**/setupTests.*',
+    '**/reportWebVitals.*',
+    '**/{serviceWorker,registerServiceWorker,service-worker}.*',
+    '**/*.{stories,story}.*'
+];
+
 // Global file content cache for performance
 const fileContentCache = new Map<string, string>();
 
@@ -31,6 +58,15 @@ export function clearCache(): void {
     fileContentCache.clear();
 }
 
+/**
+ * Drops changed or deleted files from the content cache
+ */
+export function invalidateCachedContent(filePaths: string[]): void {
+    for (const filePath of filePaths) {
+        fileContentCache.delete(filePath);
+    }
+}
+
 /**
  * Gets cached file content or reads from disk
  */
@@ -68,29 +104,6 @@ export function toPascalCase(fileName: string): string {
         .join('');
 }
 
-/**
- * Checks if file content is a React component (sync version for batch processing)
- */
-function isReactComponentContent(content: string): boolean {
-    // Quick checks first (most common patterns)
-    const hasReactImport = content.includes('from \'react\'') ||
-                          content.includes('from "react"') ||
-                          content.includes('from \'react/');
-
-    const hasJSX = /<[A-Z]/.test(content) || /<\/[A-Z]/.test(content);
-
-    if (!hasReactImport && !hasJSX) {
-        return false;
-    }
-
-    // Check for component patterns
-    const hasComponentPattern =
-        /(function|const|class)\s+[A-Z][a-zA-Z0-9]*\s*[=\(]/.test(content) ||
-        /export\s+(default\s+)?(function|const|class)\s+[A-Z][a-zA-Z0-9]*/.test(content);
-
-    return (hasReactImport || hasJSX) && (hasJSX || hasComponentPattern);
-}
-
 /**
  * Gets file statistics synchronously for better performance
  */
@@ -109,68 +122,129 @@ function getFileStatsSync(filePath: string): { size: number; lastModified: Date
 /**
  * Checks if a file should be excluded from scanning
  */
-function shouldExcludeFile(filePath: string, options?: ScanOptions): boolean {
-    if (filePath.includes('node_modules')) {
+function shouldExcludeFile(filePath: string, root: string, options?: ScanOptions): boolean {
+    if (!isIncludedFile(filePath, root, options)) {
         return true;
     }
 
-    // Skip common non-component files
-    const fileName = path.basename(filePath).toLowerCase();
-    const skipFiles = ['setuptest', 'reportwebvitals', 'serviceWorker', '.d.ts', '.test.', '.spec.'];
-    if (skipFiles.some(skip => fileName.includes(skip.toLowerCase()))) {
+    if (matchesGlob(path.relative(root, filePath), SKIPPED_FILE_PATTERNS)) {
         return true;
     }
 
-    if (options?.excludePatterns) {
-        for (const pattern of options.excludePatterns) {
-            if (filePath.includes(pattern)) {
-                return true;
-            }
+    return isTestFile(filePath, root, options?.testPatterns);
+}
+
+/**
+ * Parses a file for component declarations and its ignore annotation,
+ * reusing the file index entry when the file has not changed. Parsing
+ * runs in a worker when a pool is given, and falls back to this thread
+ * if the worker fails.
+ */
+async function detectComponent(
+    filePath: string,
+    fileIndex?: FileIndex,
+    pool?: ParserPool
+): Promise<{ componentName: string; symbols: ComponentSymbol[]; annotation?: IgnoreInfo } | undefined> {
+    const componentName = toPascalCase(path.basename(filePath));
+    const cached = fileIndex?.getValid(filePath);
+
+    if (cached && cached.isComponent !== undefined) {
+        return cached.isComponent
+            ? { componentName, symbols: cached.symbols || [], annotation: cached.annotation || undefined }
+            : undefined;
+    }
+
+    const stamp = fileIndex?.stamp(filePath);
+    let result: ComponentTaskResult | undefined;
+    if (pool) {
+        try {
+            result = await pool.run({ kind: 'component', filePath, componentName });
+        } catch {
+            // Parse on this thread instead
         }
     }
 
-    return false;
+    if (!result) {
+        const content = await getCachedContent(filePath);
+        if (!content) {
+            return undefined;
+        }
+        result = detectComponentContent(filePath, content, componentName);
+    }
+
+    if (!result.isComponent) {
+        fileIndex?.record(filePath, stamp, result.hash, { isComponent: false });
+        return undefined;
+    }
+
+    fileIndex?.record(filePath, stamp, result.hash, {
+        isComponent: true,
+        symbols: result.symbols,
+        annotation: result.annotation || null
+    });
+
+    return { componentName, symbols: result.symbols, annotation: result.annotation };
 }
 
 /**
  * Process a batch of files in parallel
  */
 async function processBatch(
-    files: vscode.Uri[],
+    files: string[],
+    host: ProjectHost,
     options?: ScanOptions,
     batchSize: number = 50
 ): Promise<ComponentInfo[]> {
     const components: ComponentInfo[] = [];
+    const configs = new Map<string, PrunerConfig>();
+    const pool = files.length >= MIN_FILES_FOR_WORKERS ? options?.parserPool : undefined;
+
+    // Invalid config files are reported by the caller, treat them as empty here
+    const getConfig = (root: string): PrunerConfig => {
+        if (!configs.has(root)) {
+            try {
+                configs.set(root, loadPrunerConfig(root));
+            } catch {
+                configs.set(root, { ignore: [], keep: [] });
+            }
+        }
+        return configs.get(root)!;
+    };
 
     // Process files in batches
     for (let i = 0; i < files.length; i += batchSize) {
         const batch = files.slice(i, i + batchSize);
 
         const batchResults = await Promise.all(
-            batch.map(async (file) => {
-                const filePath = file.fsPath;
+            batch.map(async (filePath) => {
+                const root = getRootFolderFor(host, filePath) || path.dirname(filePath);
 
-                if (shouldExcludeFile(filePath, options)) {
+                if (shouldExcludeFile(filePath, root, options)) {
                     return null;
                 }
 
                 try {
-                    const content = await getCachedContent(filePath);
-
-                    if (!content || !isReactComponentContent(content)) {
+                    const detected = await detectComponent(filePath, options?.fileIndex, pool);
+                    if (!detected) {
                         return null;
                     }
 
-                    const fileName = path.basename(filePath);
                     const stats = getFileStatsSync(filePath);
-
-                    return {
+                    const component: ComponentInfo = {
                         filePath,
-                        fileName,
-                        componentName: toPascalCase(fileName),
+                        fileName: path.basename(filePath),
+                        componentName: detected.componentName,
                         size: stats.size,
-                        lastModified: stats.lastModified
+                        lastModified: stats.lastModified,
+                        symbols: detected.symbols
                     };
+
+                    const ignored = getIgnoreInfo(filePath, root, detected.annotation, getConfig(root));
+                    if (ignored) {
+                        component.ignored = ignored;
+                    }
+
+                    return component;
                 } catch {
                     return null;
                 }
@@ -188,36 +262,25 @@ async function processBatch(
  * Scans the workspace for React components with optimized parallel processing
  */
 export async function scanReactComponents(
+    host: ProjectHost,
     options?: ScanOptions
 ): Promise<ComponentInfo[]> {
     // Clear cache for fresh scan
     clearCache();
 
     try {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
+        const rootFolders = host.getRootFolders();
 
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            vscode.window.showWarningMessage('No workspace folder found');
+        if (rootFolders.length === 0) {
+            host.showWarning('No workspace folder found');
             return [];
         }
 
-        const patterns = options?.includePatterns || ['**/*.{js,jsx,ts,tsx}'];
-        const allFiles: vscode.Uri[] = [];
-
-        // Collect all files first (single findFiles call is faster)
-        for (const workspaceFolder of workspaceFolders) {
-            for (const pattern of patterns) {
-                const files = await vscode.workspace.findFiles(
-                    new vscode.RelativePattern(workspaceFolder, pattern),
-                    '**/node_modules/**',
-                    10000
-                );
-                allFiles.push(...files);
-            }
-        }
+        // Collect the shared project file set first (single pass over each root)
+        const allFiles = await findProjectFiles(host, options);
 
         // Process all files in parallel batches
-        const components = await processBatch(allFiles, options);
+        const components = await processBatch(allFiles, host, options);
 
         // Sort by file path
         components.sort((a, b) => a.filePath.localeCompare(b.filePath));
@@ -225,38 +288,56 @@ export async function scanReactComponents(
         return components;
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(`Error scanning React components: ${errorMessage}`);
+        host.showError(`Error scanning React components: ${errorMessage}`);
         console.error('Error scanning React components:', error);
         return [];
     }
 }
 
+/**
+ * Scans specific files for React components, re-reading them from disk.
+ * Used to update a previous scan after files change.
+ */
+export async function scanComponentFiles(
+    host: ProjectHost,
+    filePaths: string[],
+    options?: ScanOptions
+): Promise<ComponentInfo[]> {
+    invalidateCachedContent(filePaths);
+
+    const components = await processBatch(filePaths, host, options);
+    components.sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+    return components;
+}
+
 /**
  * Scans a specific directory for React components
  */
 export async function scanDirectory(
+    host: ProjectHost,
     directoryPath: string,
     options?: ScanOptions
 ): Promise<ComponentInfo[]> {
     try {
-        const pattern = new vscode.RelativePattern(
+        const { files, limitReached } = await collectFiles(
+            host,
             directoryPath,
-            '**/*.{js,jsx,ts,tsx}'
-        );
-
-        const files = await vscode.workspace.findFiles(
-            pattern,
+            '**/*.{js,jsx,ts,tsx}',
             '**/node_modules/**',
-            10000
+            options?.maxFiles || undefined
         );
+        if (limitReached && options?.maxFiles) {
+            warnFileLimit(host, [directoryPath], options.maxFiles);
+        }
 
-        const components = await processBatch(files, options);
+        const components = await processBatch(files, host, options);
         components.sort((a, b) => a.filePath.localeCompare(b.filePath));
 
         return components;
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(`Error scanning directory: ${errorMessage}`);
+        host.showError(`Error scanning directory: ${errorMessage}`);
         console.error('Error scanning directory:', error);
         return [];
     }
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { ProjectScanOptions } from './core';
+import { DEFAULT_TEST_PATTERNS } from './importers';
+import { DEFAULT_SAFETY_CHECKS } from './safety';
+import { DEFAULT_MAX_WORKERS } from './workerPool';
+import { DiagnosticSeveritySetting } from './diagnostics';
+import { DeletionMethod } from './quarantine';
+
+/**
+ * Configuration section contributed in package.json
+ */
+export const SETTINGS_SECTION = 'unusedComponentDetector';
+
+/**
+ * Settings that change scan results; other settings only change how
+ * results are shown
+ */
+const SCAN_SETTINGS = [
+    'includePatterns',
+    'excludePatterns',
+    'entryFiles',
+    'testFilePatterns',
+    'maxFiles',
+    'maxWorkers',
+    'crossFolderImports',
+    'safetyChecks'
+];
+
+/**
+ * Reads the extension settings for a workspace folder.
+ * Empty lists fall back to the built-in defaults and a `maxFiles` of 0
+ * means no limit.
+ */
+export function readScanSettings(folder?: vscode.WorkspaceFolder): ProjectScanOptions {
+    const config = vscode.workspace.getConfiguration(SETTINGS_SECTION, folder?.uri);
+    const list = (key: string): string[] | undefined => {
+        const value = config.get<string[]>(key, []);
+        return Array.isArray(value) && value.length > 0 ? value : undefined;
+    };
+    const maxFiles = config.get<number>('maxFiles', 0);
+
+    return {
+        includePatterns: list('includePatterns'),
+        excludePatterns: list('excludePatterns'),
+        entryFiles: list('entryFiles'),
+        testPatterns: list('testFilePatterns') || DEFAULT_TEST_PATTERNS,
+        maxFiles: maxFiles > 0 ? maxFiles : undefined,
+        maxWorkers: Math.max(0, config.get<number>('maxWorkers', DEFAULT_MAX_WORKERS)),
+        safetyChecks: {
+            checkIndexExports: config.get<boolean>('safetyChecks.indexExports', DEFAULT_SAFETY_CHECKS.checkIndexExports),
+            checkTestFiles: config.get<boolean>('safetyChecks.testImports', DEFAULT_SAFETY_CHECKS.checkTestFiles),
+            checkFrameworkConventions: config.get<boolean>(
+                'safetyChecks.frameworkConventions',
+                DEFAULT_SAFETY_CHECKS.checkFrameworkConventions
+            ),
+            checkStringReferences: config.get<boolean>(
+                'safetyChecks.stringReferences',
+                DEFAULT_SAFETY_CHECKS.checkStringReferences
+            )
+        }
+    };
+}
+
+/**
+ * Reads whether imports between workspace folders count as usage
+ */
+export function readCrossFolderSetting(): boolean {
+    return vscode.workspace.getConfiguration(SETTINGS_SECTION).get<boolean>('crossFolderImports', true);
+}
+
+/**
+ * Checks whether a configuration change requires rescanning a folder
+ */
+export function affectsScanSettings(event: vscode.ConfigurationChangeEvent, folder: vscode.Uri): boolean {
+    return SCAN_SETTINGS.some(key => event.affectsConfiguration(`${SETTINGS_SECTION}.${key}`, folder));
+}
+
+/**
+ * Reads the severity of unused component problems for a workspace folder
+ */
+export function readDiagnosticSeverity(folder?: vscode.WorkspaceFolder): DiagnosticSeveritySetting {
+    return vscode.workspace.getConfiguration(SETTINGS_SECTION, folder?.uri)
+        .get<DiagnosticSeveritySetting>('diagnostics.severity', 'warning');
+}
+
+/**
+ * Reads whether importer counts are shown above component declarations
+ */
+export function readCodeLensSetting(folder?: vscode.WorkspaceFolder): boolean {
+    return vscode.workspace.getConfiguration(SETTINGS_SECTION, folder?.uri).get<boolean>('codeLens.enabled', true);
+}
+
+/**
+ * Reads how deleted components are removed and how many days quarantined
+ * ones are kept; a retention of 0 keeps them until restored
+ */
+export function readDeletionSettings(folder?: vscode.WorkspaceFolder): { method: DeletionMethod; retentionDays: number } {
+    const config = vscode.workspace.getConfiguration(SETTINGS_SECTION, folder?.uri);
+    return {
+        method: config.get<DeletionMethod>('deletion.method', 'quarantine'),
+        retentionDays: Math.max(0, config.get<number>('deletion.retentionDays', 30))
+    };
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Folder Jest writes a test file's snapshots to, next to the test file
+ */
+const SNAPSHOT_DIRECTORY = '__snapshots__';
+
+/**
+ * Normalizes a path the way the dependency analyzer keys its graph
+ */
+function toGraphPath(filePath: string): string {
+    return path.resolve(filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Lists the files in a directory whose name starts with one of the stems
+ */
+function listNamedFiles(directory: string, stems: string[]): string[] {
+    try {
+        return fs.readdirSync(directory, { withFileTypes: true })
+            .filter(entry => entry.isFile() && stems.some(stem => entry.name.startsWith(`${stem}.`)))
+            .map(entry => path.join(directory, entry.name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Finds the sidecar files of a component file: the files next to it named
+ * after it (`Button.module.css`, `Button.types.ts`, `Button.test.tsx`...)
+ * that only the component and its other sidecars import, and the Jest
+ * snapshots of those that are tests. `getImporters` gets the files
+ * importing any file, keyed like the analyzer's graph.
+ */
+export function findSidecarFiles(componentPath: string, getImporters: (filePath: string) => string[]): string[] {
+    const directory = path.dirname(componentPath);
+    const stem = path.basename(componentPath, path.extname(componentPath));
+    // `Button/index.tsx` may come with `Button/Button.module.css`
+    const stems = stem === 'index' ? [stem, path.basename(directory)] : [stem];
+
+    const sidecars = new Set(
+        listNamedFiles(directory, stems).filter(filePath => toGraphPath(filePath) !== toGraphPath(componentPath))
+    );
+
+    // Drop sidecars used from elsewhere until only ones used by the group are left
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const group = new Set([componentPath, ...sidecars].map(toGraphPath));
+        for (const sidecar of sidecars) {
+            if (getImporters(sidecar).some(importer => !group.has(toGraphPath(importer)))) {
+                sidecars.delete(sidecar);
+                changed = true;
+            }
+        }
+    }
+
+    const snapshots = listNamedFiles(path.join(directory, SNAPSHOT_DIRECTORY), stems).filter(snapshot =>
+        path.extname(snapshot) === '.snap' &&
+        sidecars.has(path.join(directory, path.basename(snapshot, '.snap')))
+    );
+
+    return [...sidecars, ...snapshots].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { UnusedComponentInfo } from './core';
+
+/**
+ * Id of the tree view contributed in package.json
+ */
+export const TREE_VIEW_ID = 'unusedComponentsTree';
+
+/**
+ * Safety verdict groups, in display order
+ */
+type SafetyGroup = 'safe' | 'review' | 'unknown';
+
+const SAFETY_GROUPS: Record<SafetyGroup, { label: string; icon: vscode.ThemeIcon }> = {
+    safe: {
+        label: 'Safe to Delete',
+        icon: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+    },
+    review: {
+        label: 'Needs Review',
+        icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+    },
+    unknown: {
+        label: 'Not Checked',
+        icon: new vscode.ThemeIcon('question')
+    }
+};
+
+/**
+ * A workspace folder, shown only in multi-root workspaces
+ */
+interface FolderNode {
+    kind: 'folder';
+    folder: vscode.WorkspaceFolder;
+    components: UnusedComponentInfo[];
+}
+
+/**
+ * Components with the same safety verdict
+ */
+interface SafetyNode {
+    kind: 'safety';
+    group: SafetyGroup;
+    root: string;
+    components: UnusedComponentInfo[];
+}
+
+/**
+ * Components in the same directory
+ */
+interface DirectoryNode {
+    kind: 'directory';
+    directory: string;
+    root: string;
+    components: UnusedComponentInfo[];
+}
+
+/**
+ * An unused component file
+ */
+export interface ComponentNode {
+    kind: 'component';
+    component: UnusedComponentInfo;
+}
+
+export type ComponentTreeNode = FolderNode | SafetyNode | DirectoryNode | ComponentNode;
+
+/**
+ * Gets a component's safety verdict group
+ */
+function getSafetyGroup(component: UnusedComponentInfo): SafetyGroup {
+    return component.isSafe === true ? 'safe' : component.isSafe === false ? 'review' : 'unknown';
+}
+
+/**
+ * UnusedComponentsTree class listing the last scan's unused components
+ * in the sidebar, grouped by workspace folder, safety verdict and
+ * directory, with the unused count as the view badge
+ */
+export class UnusedComponentsTree implements vscode.TreeDataProvider<ComponentTreeNode>, vscode.Disposable {
+    private components: UnusedComponentInfo[] = [];
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private view: vscode.TreeView<ComponentTreeNode>;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor() {
+        this.view = vscode.window.createTreeView(TREE_VIEW_ID, {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+    }
+
+    /**
+     * Shows new scan results
+     */
+    update(components: UnusedComponentInfo[]): void {
+        this.components = components;
+        this.refresh();
+    }
+
+    /**
+     * Drops deleted or ignored files
+     */
+    remove(filePaths: string[]): void {
+        const removed = new Set(filePaths);
+        if (this.components.some(component => removed.has(component.filePath))) {
+            this.components = this.components.filter(component => !removed.has(component.filePath));
+            this.refresh();
+        }
+    }
+
+    getTreeItem(node: ComponentTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'folder': {
+                const item = new vscode.TreeItem(node.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('root-folder');
+                item.description = `${node.components.length}`;
+                return item;
+            }
+
+            case 'safety': {
+                const group = SAFETY_GROUPS[node.group];
+                const item = new vscode.TreeItem(group.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = group.icon;
+                item.description = `${node.components.length}`;
+                return item;
+            }
+
+            case 'directory': {
+                const relativePath = path.relative(node.root, node.directory) || '.';
+                const item = new vscode.TreeItem(relativePath.replace(/\\/g, '/'), vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = vscode.ThemeIcon.Folder;
+                item.resourceUri = vscode.Uri.file(node.directory);
+                item.description = `${node.components.length}`;
+                return item;
+            }
+
+            case 'component': {
+                const { component } = node;
+                const item = new vscode.TreeItem(component.componentName, vscode.TreeItemCollapsibleState.None);
+                item.resourceUri = vscode.Uri.file(component.filePath);
+                item.description = path.basename(component.filePath);
+                item.tooltip = this.getTooltip(component);
+                item.contextValue = 'unusedComponent';
+                item.command = {
+                    title: 'Open Component',
+                    command: 'unused-component-detector.openComponent',
+                    arguments: [node]
+                };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: ComponentTreeNode): ComponentTreeNode[] {
+        if (!node) {
+            const folders = vscode.workspace.workspaceFolders || [];
+            if (folders.length <= 1) {
+                return this.getSafetyNodes(folders[0]?.uri.fsPath || '', this.components);
+            }
+
+            return folders
+                .map(folder => ({
+                    kind: 'folder' as const,
+                    folder,
+                    components: this.components.filter(component =>
+                        vscode.workspace.getWorkspaceFolder(vscode.Uri.file(component.filePath))?.uri.fsPath === folder.uri.fsPath
+                    )
+                }))
+                .filter(folderNode => folderNode.components.length > 0);
+        }
+
+        switch (node.kind) {
+            case 'folder':
+                return this.getSafetyNodes(node.folder.uri.fsPath, node.components);
+
+            case 'safety':
+                return this.getDirectoryNodes(node.root, node.components);
+
+            case 'directory':
+                return [...node.components]
+                    .sort((a, b) => a.componentName.localeCompare(b.componentName))
+                    .map(component => ({ kind: 'component', component }));
+
+            case 'component':
+                return [];
+        }
+    }
+
+    dispose(): void {
+        this.view.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Groups components by safety verdict
+     */
+    private getSafetyNodes(root: string, components: UnusedComponentInfo[]): SafetyNode[] {
+        return (Object.keys(SAFETY_GROUPS) as SafetyGroup[])
+            .map(group => ({
+                kind: 'safety' as const,
+                group,
+                root,
+                components: components.filter(component => getSafetyGroup(component) === group)
+            }))
+            .filter(safetyNode => safetyNode.components.length > 0);
+    }
+
+    /**
+     * Groups components by the directory they live in
+     */
+    private getDirectoryNodes(root: string, components: UnusedComponentInfo[]): DirectoryNode[] {
+        const directories = new Map<string, UnusedComponentInfo[]>();
+        for (const component of components) {
+            const directory = path.dirname(component.filePath);
+            directories.set(directory, [...(directories.get(directory) || []), component]);
+        }
+
+        return [...directories.keys()]
+            .sort((a, b) => a.localeCompare(b))
+            .map(directory => ({ kind: 'directory', directory, root, components: directories.get(directory)! }));
+    }
+
+    /**
+     * Gets a component's tooltip with its usage and safety warnings
+     */
+    private getTooltip(component: UnusedComponentInfo): vscode.MarkdownString {
+        const usage = component.usage === 'stories-only' ? 'Only used by stories'
+            : component.usage === 'tests-only' ? 'Only used by tests'
+            : component.usage === 'used' ? 'Not reachable from the entry files' : 'Not imported by any file';
+        const warnings = (component.safetyCheck?.warnings || []).map(warning => warning.trim());
+
+        return new vscode.MarkdownString(
+            [`**${component.componentName}** · ${usage}`, warnings.join('  \n')].filter(Boolean).join('\n\n')
+        );
+    }
+
+    /**
+     * Re-renders the tree and updates the badge
+     */
+    private refresh(): void {
+        this.changeEmitter.fire();
+        this.view.badge = this.components.length > 0
+            ? { value: this.components.length, tooltip: `${this.components.length} unused component(s)` }
+            : undefined;
+    }
+}
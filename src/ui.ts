@@ -1,24 +1,27 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { DependencyGraph, UnusedSymbolInfo } from './analyzer';
+import { extractComponentSymbols, SourceRange } from './parser';
+import { UnusedComponentInfo } from './core';
 import { ComponentInfo } from './scanner';
-import { SafetyCheckResult } from './safety';
+import { PRUNER_CONFIG_FILE } from './ignore';
+import { buildGraphData, getGraphViewHtml } from './graphView';
+import { formatFileSize } from './report';
 
-/**
- * Extended component info with safety status
- */
-export interface UnusedComponentInfo extends ComponentInfo {
-    isSafe?: boolean;
-    safetyCheck?: SafetyCheckResult;
-}
+export { UnusedComponentInfo };
 
 /**
  * Message types for webview communication
  */
 interface WebviewMessage {
-    type: 'delete' | 'refresh' | 'openFile' | 'checkSafety' | 'deleteSelected' | 'selectAll' | 'toggleSelect';
+    type: 'delete' | 'refresh' | 'openFile' | 'checkSafety' | 'deleteSelected' | 'pruneSelected' | 'selectAll' | 'toggleSelect' | 'removeSymbol' | 'exportReport' | 'filterFolder' | 'scanFolder' | 'switchView';
     componentPath?: string;
+    view?: 'list' | 'graph';
+    folderPath?: string;
     componentPaths?: string[];
     selectAll?: boolean;
+    symbolName?: string;
+    line?: number;
 }
 
 /**
@@ -29,6 +32,12 @@ export class UnusedComponentsPanel {
     private readonly _panel: vscode.WebviewPanel;
     private _disposables: vscode.Disposable[] = [];
     private _unusedComponents: UnusedComponentInfo[] = [];
+    private _unusedSymbols: UnusedSymbolInfo[] = [];
+    private _islands: string[][] = [];
+    private _ignoredComponents: ComponentInfo[] = [];
+    private _dependencyGraph: DependencyGraph = {};
+    private _folderFilter: string | undefined;
+    private _view: 'list' | 'graph' = 'list';
 
     private constructor(panel: vscode.WebviewPanel, _extensionUri: vscode.Uri) {
         this._panel = panel;
@@ -51,7 +60,11 @@ export class UnusedComponentsPanel {
      */
     public static show(
         context: vscode.ExtensionContext,
-        unusedComponents: UnusedComponentInfo[]
+        unusedComponents: UnusedComponentInfo[],
+        unusedSymbols: UnusedSymbolInfo[] = [],
+        islands: string[][] = [],
+        ignoredComponents: ComponentInfo[] = [],
+        dependencyGraph: DependencyGraph = {}
     ): void {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -60,7 +73,7 @@ export class UnusedComponentsPanel {
         // If panel already exists, reveal it
         if (UnusedComponentsPanel.currentPanel) {
             UnusedComponentsPanel.currentPanel._panel.reveal(column);
-            UnusedComponentsPanel.currentPanel.update(unusedComponents);
+            UnusedComponentsPanel.currentPanel.update(unusedComponents, unusedSymbols, islands, ignoredComponents, dependencyGraph);
             return;
         }
 
@@ -83,14 +96,30 @@ export class UnusedComponentsPanel {
             context.extensionUri
         );
 
-        UnusedComponentsPanel.currentPanel.update(unusedComponents);
+        UnusedComponentsPanel.currentPanel.update(unusedComponents, unusedSymbols, islands, ignoredComponents, dependencyGraph);
     }
 
     /**
      * Updates the panel with new component data
      */
-    public update(unusedComponents: UnusedComponentInfo[]): void {
+    public update(
+        unusedComponents: UnusedComponentInfo[],
+        unusedSymbols: UnusedSymbolInfo[] = this._unusedSymbols,
+        islands: string[][] = this._islands,
+        ignoredComponents: ComponentInfo[] = this._ignoredComponents,
+        dependencyGraph: DependencyGraph = this._dependencyGraph
+    ): void {
         this._unusedComponents = unusedComponents;
+        this._unusedSymbols = unusedSymbols;
+        this._ignoredComponents = ignoredComponents;
+        this._dependencyGraph = dependencyGraph;
+
+        // Drop deleted components from islands
+        const remaining = new Set(unusedComponents.map(c => c.filePath));
+        this._islands = islands
+            .map(island => island.filter(p => remaining.has(p)))
+            .filter(island => island.length > 0);
+
         this._panel.webview.html = this.getWebviewContent();
     }
 
@@ -111,9 +140,21 @@ export class UnusedComponentsPanel {
                 }
                 break;
 
+            case 'pruneSelected':
+                if (message.componentPaths) {
+                    await this.handlePruneToBranch(message.componentPaths);
+                }
+                break;
+
             case 'openFile':
                 if (message.componentPath) {
-                    await this.handleOpenFile(message.componentPath);
+                    await this.handleOpenFile(message.componentPath, message.line);
+                }
+                break;
+
+            case 'removeSymbol':
+                if (message.componentPath && message.symbolName) {
+                    await this.handleRemoveSymbol(message.componentPath, message.symbolName);
                 }
                 break;
 
@@ -124,8 +165,28 @@ export class UnusedComponentsPanel {
                 break;
 
             case 'refresh':
+                await vscode.commands.executeCommand('unused-component-detector.refresh');
+                break;
+
+            case 'exportReport':
+                await vscode.commands.executeCommand('unused-component-detector.exportReport');
+                break;
+
+            case 'filterFolder':
+                this._folderFilter = message.folderPath || undefined;
                 this._panel.webview.html = this.getWebviewContent();
                 break;
+
+            case 'switchView':
+                this._view = message.view === 'graph' ? 'graph' : 'list';
+                this._panel.webview.html = this.getWebviewContent();
+                break;
+
+            case 'scanFolder':
+                if (message.folderPath) {
+                    await vscode.commands.executeCommand('unused-component-detector.scanFolder', message.folderPath);
+                }
+                break;
         }
     }
 
@@ -150,41 +211,7 @@ export class UnusedComponentsPanel {
             return;
         }
 
-        // Show confirmation dialog
-        const confirmMessage = component.isSafe
-            ? `Are you sure you want to delete "${component.componentName}"?`
-            : `Warning: "${component.componentName}" may have dependencies. Are you sure you want to delete it?`;
-
-        const result = await vscode.window.showWarningMessage(
-            confirmMessage,
-            { modal: true },
-            'Delete',
-            'Cancel'
-        );
-
-        if (result === 'Delete') {
-            try {
-                // Delete the file
-                await vscode.workspace.fs.delete(vscode.Uri.file(componentPath));
-                
-                // Remove from list
-                this._unusedComponents = this._unusedComponents.filter(
-                    c => c.filePath !== componentPath
-                );
-
-                // Update panel
-                this.update(this._unusedComponents);
-
-                vscode.window.showInformationMessage(
-                    `Deleted component: ${component.componentName}`
-                );
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                vscode.window.showErrorMessage(
-                    `Failed to delete component: ${errorMessage}`
-                );
-            }
-        }
+        await this.deleteComponents([componentPath]);
     }
 
     /**
@@ -196,78 +223,113 @@ export class UnusedComponentsPanel {
             return;
         }
 
-        // Calculate total size to be saved
-        const totalSize = componentPaths.reduce((sum, path) => {
-            const component = this._unusedComponents.find(c => c.filePath === path);
-            return sum + (component?.size || 0);
-        }, 0);
+        await this.deleteComponents(componentPaths);
+    }
+
+    /**
+     * Deletes components through the delete command, which confirms and
+     * reports the outcome, and drops the removed ones from the list
+     */
+    private async deleteComponents(componentPaths: string[]): Promise<void> {
+        const removed = await vscode.commands.executeCommand<string[]>(
+            'unused-component-detector.delete',
+            componentPaths
+        );
+        if (removed && removed.length > 0) {
+            this._unusedComponents = this._unusedComponents.filter(c => !removed.includes(c.filePath));
+            this.update(this._unusedComponents);
+        }
+    }
+
+    /**
+     * Handles pruning of selected components to a new git branch
+     */
+    private async handlePruneToBranch(componentPaths: string[]): Promise<void> {
+        const removed = await vscode.commands.executeCommand<string[]>(
+            'unused-component-detector.pruneToBranch',
+            componentPaths
+        );
+        if (removed && removed.length > 0) {
+            this._unusedComponents = this._unusedComponents.filter(c => !removed.includes(c.filePath));
+            this.update(this._unusedComponents);
+        }
+    }
+
+    /**
+     * Handles removal of a single unused component declaration
+     */
+    private async handleRemoveSymbol(filePath: string, symbolName: string): Promise<void> {
+        const fileName = path.basename(filePath);
 
-        // Show confirmation
         const confirm = await vscode.window.showWarningMessage(
-            `Delete ${componentPaths.length} selected component(s)? This will free up ${this.formatFileSize(totalSize)}.`,
+            `Remove the unused component "${symbolName}" from "${fileName}"?`,
             { modal: true },
-            'Delete',
+            'Remove',
             'Cancel'
         );
 
-        if (confirm !== 'Delete') {
+        if (confirm !== 'Remove') {
             return;
         }
 
-        let deletedCount = 0;
-        let failedCount = 0;
-        let totalSizeDeleted = 0;
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
 
-        // Delete each component
-        for (const componentPath of componentPaths) {
-            try {
-                const component = this._unusedComponents.find(c => c.filePath === componentPath);
-                if (!component) continue;
+            // Re-parse the current text so ranges are not stale after edits
+            const symbol = extractComponentSymbols(filePath, document.getText(), symbolName)
+                .find(s => s.name === symbolName);
 
-                await vscode.workspace.fs.delete(vscode.Uri.file(componentPath));
-                totalSizeDeleted += component.size;
-                deletedCount++;
+            if (!symbol) {
+                vscode.window.showErrorMessage(`Could not find "${symbolName}" in ${fileName}`);
+                return;
+            }
 
-                // Remove from list
-                this._unusedComponents = this._unusedComponents.filter(
-                    c => c.filePath !== componentPath
+            const ranges: SourceRange[] = [symbol.range, ...symbol.exportRanges]
+                .sort((a, b) => a.start - b.start);
+
+            const edit = new vscode.WorkspaceEdit();
+            for (const range of ranges) {
+                edit.delete(
+                    document.uri,
+                    new vscode.Range(document.positionAt(range.start), document.positionAt(range.end))
                 );
-            } catch (error) {
-                failedCount++;
-                console.error(`Failed to delete ${componentPath}:`, error);
             }
-        }
 
-        // Update panel
-        this.update(this._unusedComponents);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showErrorMessage(`Failed to remove "${symbolName}"`);
+                return;
+            }
+            await document.save();
 
-        // Show success message with statistics
-        if (deletedCount > 0) {
-            const sizeInKB = totalSizeDeleted / 1024;
-            const performanceImpact = sizeInKB > 100 
-                ? 'Significant performance improvement'
-                : sizeInKB > 50 
-                ? 'Good performance improvement'
-                : 'Minor performance improvement';
-            
-            const message = `✅ Deleted ${deletedCount} component(s) | 💾 Saved ${this.formatFileSize(totalSizeDeleted)} | 🚀 ${performanceImpact}`;
-            vscode.window.showInformationMessage(message);
-        }
+            this._unusedSymbols = this._unusedSymbols.filter(
+                s => !(s.filePath === filePath && s.symbol.name === symbolName)
+            );
+            this.update(this._unusedComponents);
 
-        if (failedCount > 0) {
-            vscode.window.showWarningMessage(`Failed to delete ${failedCount} component(s)`);
+            vscode.window.showInformationMessage(`Removed ${symbolName} from ${fileName}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(
+                `Failed to remove component: ${errorMessage}`
+            );
         }
     }
 
     /**
      * Handles open file button click
      */
-    private async handleOpenFile(componentPath: string): Promise<void> {
+    private async handleOpenFile(componentPath: string, line?: number): Promise<void> {
         try {
             const document = await vscode.workspace.openTextDocument(
                 vscode.Uri.file(componentPath)
             );
-            await vscode.window.showTextDocument(document);
+            const editor = await vscode.window.showTextDocument(document);
+
+            if (line !== undefined) {
+                const position = new vscode.Position(line, 0);
+                editor.selection = new vscode.Selection(position, position);
+                editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+            }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             vscode.window.showErrorMessage(
@@ -286,42 +348,65 @@ export class UnusedComponentsPanel {
         // TODO: Integrate with SafetyChecker when available
     }
 
-    /**
-     * Formats file size in human-readable format
-     */
-    private formatFileSize(bytes: number): string {
-        if (bytes < 1024) {
-            return `${bytes} B`;
-        } else if (bytes < 1024 * 1024) {
-            return `${(bytes / 1024).toFixed(2)} KB`;
-        } else {
-            return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
-        }
-    }
-
     /**
      * Gets the webview HTML content
      */
     private getWebviewContent(): string {
-        const totalSize = this._unusedComponents.reduce(
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (this._folderFilter && !folders.some(folder => folder.uri.fsPath === this._folderFilter)) {
+            this._folderFilter = undefined;
+        }
+
+        const unusedComponents = this.inSelectedFolder(this._unusedComponents, c => c.filePath);
+        const unusedSymbols = this.inSelectedFolder(this._unusedSymbols, s => s.filePath);
+        const ignoredComponents = this.inSelectedFolder(this._ignoredComponents, c => c.filePath);
+        const islands = this.inSelectedFolder(this._islands, island => island[0]);
+        const folderFilterHtml = folders.length > 1 ? this.getFolderFilterHtml(folders) : '';
+
+        const totalSize = unusedComponents.reduce(
             (sum, comp) => sum + comp.size,
             0
         );
 
-        const safeCount = this._unusedComponents.filter(
+        const safeCount = unusedComponents.filter(
             c => c.isSafe === true
         ).length;
 
-        const unsafeCount = this._unusedComponents.filter(
+        const unsafeCount = unusedComponents.filter(
             c => c.isSafe === false
         ).length;
 
-        const unknownCount = this._unusedComponents.filter(
+        const unknownCount = unusedComponents.filter(
             c => c.isSafe === undefined
         ).length;
 
-        const componentsHtml = this._unusedComponents
-            .map((component, index) => this.getComponentHtml(component, index))
+        const storiesOnly = unusedComponents.filter(c => c.usage === 'stories-only');
+        const testsOnlyCount = unusedComponents.filter(c => c.usage === 'tests-only').length;
+
+        const componentsHtml = unusedComponents
+            .map((component, index) => ({ component, index }))
+            .filter(({ component }) => component.usage !== 'stories-only')
+            .map(({ component, index }) => this.getComponentHtml(component, index))
+            .join('');
+
+        const storiesOnlyHtml = unusedComponents
+            .map((component, index) => ({ component, index }))
+            .filter(({ component }) => component.usage === 'stories-only')
+            .map(({ component, index }) => this.getComponentHtml(component, index))
+            .join('');
+
+        // Islands of a single component are plain unused components
+        const orphanIslands = islands.filter(island => island.length > 1);
+        const islandsHtml = orphanIslands
+            .map((island, index) => this.getIslandHtml(island, index))
+            .join('');
+
+        const symbolsHtml = unusedSymbols
+            .map(symbol => this.getSymbolHtml(symbol))
+            .join('');
+
+        const ignoredHtml = ignoredComponents
+            .map(component => this.getIgnoredHtml(component))
             .join('');
 
         return `<!DOCTYPE html>
@@ -473,6 +558,14 @@ export class UnusedComponentsPanel {
             color: var(--vscode-descriptionForeground);
         }
 
+        .stat-card.tests-only {
+            border-color: var(--vscode-charts-yellow);
+        }
+
+        .stat-card.tests-only .stat-value {
+            color: var(--vscode-charts-yellow);
+        }
+
         .toolbar {
             display: flex;
             gap: 8px;
@@ -481,6 +574,27 @@ export class UnusedComponentsPanel {
             align-items: center;
         }
 
+        .folder-filter {
+            padding: 4px 6px;
+            font-size: 13px;
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-dropdown-foreground);
+            background-color: var(--vscode-dropdown-background);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 2px;
+        }
+
+        .folder-label {
+            display: inline-block;
+            font-size: 11px;
+            padding: 0 6px;
+            margin-right: 6px;
+            border-radius: 8px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            font-family: var(--vscode-font-family);
+        }
+
         .bulk-actions {
             display: flex;
             gap: 8px;
@@ -651,6 +765,12 @@ export class UnusedComponentsPanel {
             color: var(--vscode-editor-background);
         }
 
+        .safety-badge.tests-only {
+            background-color: var(--vscode-charts-yellow);
+            color: var(--vscode-editor-background);
+            margin-right: 6px;
+        }
+
         .empty-state {
             text-align: center;
             padding: 48px 24px;
@@ -688,6 +808,48 @@ export class UnusedComponentsPanel {
         .warning-message li {
             margin-bottom: 4px;
         }
+
+        .section-title {
+            font-size: 15px;
+            font-weight: 600;
+            margin: 24px 0 12px;
+            color: var(--vscode-foreground);
+        }
+
+        .section-description {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 12px;
+        }
+
+        .island-members {
+            list-style: none;
+            margin-bottom: 12px;
+        }
+
+        .island-members li {
+            font-size: 12px;
+            font-family: var(--vscode-editor-font-family);
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            padding: 2px 0;
+        }
+
+        .island-members li:hover {
+            text-decoration: underline;
+        }
+
+        .component-card.symbol {
+            border-left: 3px solid var(--vscode-textLink-foreground);
+        }
+
+        .component-card.ignored {
+            opacity: 0.8;
+        }
+
+        details.ignored-section summary {
+            cursor: pointer;
+        }
     </style>
 </head>
 <body>
@@ -696,7 +858,7 @@ export class UnusedComponentsPanel {
         
         <div class="summary-banner">
             <div class="summary-text">
-                📊 Found <span class="summary-highlight">${this._unusedComponents.length} Unused Components</span> | 
+                📊 Found <span class="summary-highlight">${unusedComponents.length} Unused Components</span> | 
                 ✅ <span class="summary-highlight safe">${safeCount} Safe to Delete</span> | 
                 ⚠️ <span class="summary-highlight unsafe">${unsafeCount} Need Review</span>
             </div>
@@ -705,7 +867,7 @@ export class UnusedComponentsPanel {
         <div class="stats">
             <div class="stat-card primary">
                 <div class="stat-icon">📦</div>
-                <div class="stat-value">${this._unusedComponents.length}</div>
+                <div class="stat-value">${unusedComponents.length}</div>
                 <div class="stat-label">Total Unused</div>
                 <div class="stat-description">All unused components found</div>
             </div>
@@ -729,29 +891,68 @@ export class UnusedComponentsPanel {
                 <div class="stat-description">Safety check not completed</div>
             </div>
             ` : ''}
+            ${testsOnlyCount > 0 ? `
+            <div class="stat-card tests-only">
+                <div class="stat-icon">🧪</div>
+                <div class="stat-value">${testsOnlyCount}</div>
+                <div class="stat-label">Tests Only</div>
+                <div class="stat-description">Imported only by test files</div>
+            </div>
+            ` : ''}
+            ${storiesOnly.length > 0 ? `
+            <div class="stat-card">
+                <div class="stat-icon">📖</div>
+                <div class="stat-value">${storiesOnly.length}</div>
+                <div class="stat-label">Stories Only</div>
+                <div class="stat-description">Rendered only by Storybook</div>
+            </div>
+            ` : ''}
+            ${unusedSymbols.length > 0 ? `
+            <div class="stat-card">
+                <div class="stat-icon">🧩</div>
+                <div class="stat-value">${unusedSymbols.length}</div>
+                <div class="stat-label">Unused Exports</div>
+                <div class="stat-description">Unused components in used files</div>
+            </div>
+            ` : ''}
             <div class="stat-card">
                 <div class="stat-icon">💾</div>
-                <div class="stat-value">${this.formatFileSize(totalSize)}</div>
+                <div class="stat-value">${formatFileSize(totalSize)}</div>
                 <div class="stat-label">Total Size</div>
                 <div class="stat-description">Combined size of all components</div>
             </div>
         </div>
         <div class="toolbar">
+            ${folderFilterHtml}
             <button class="btn btn-secondary" onclick="refresh()">🔄 Refresh</button>
-            ${safeCount > 0 ? `
+            <button class="btn btn-secondary" onclick="exportReport()">📄 Export Report</button>
+            <button class="btn ${this._view === 'list' ? '' : 'btn-secondary'}" onclick="switchView('list')">📋 List</button>
+            <button class="btn ${this._view === 'graph' ? '' : 'btn-secondary'}" onclick="switchView('graph')">🕸️ Graph</button>
+            ${safeCount > 0 && this._view === 'list' ? `
             <div class="bulk-actions">
                 <span class="bulk-actions-label">Bulk Actions:</span>
                 <button class="btn btn-secondary" onclick="selectAllSafe()">✓ Select All Safe (${safeCount})</button>
                 <button class="btn btn-danger" id="deleteSelectedBtn" onclick="deleteSelected()" disabled>
                     🗑️ Delete Selected (<span id="selectedCount">0</span>) - <span id="selectedSize">0 B</span>
                 </button>
+                <button class="btn btn-secondary" id="pruneSelectedBtn" onclick="pruneSelected()" disabled>🌿 Prune to Branch</button>
             </div>
             ` : ''}
         </div>
     </div>
 
+    ${this._view === 'graph' ? this.getGraphHtml(unusedComponents, ignoredComponents, islands) : `
+    ${orphanIslands.length > 0 ? `
+    <div class="section-title">Orphaned Islands (${orphanIslands.length})</div>
+    <div class="section-description">Groups of components that import each other but are never reached from an entry file. They can be removed together.</div>
     <div class="components-list">
-        ${this._unusedComponents.length === 0 
+        ${islandsHtml}
+    </div>
+    <div class="section-title">All Unreachable Components</div>
+    ` : ''}
+
+    <div class="components-list">
+        ${unusedComponents.length === storiesOnly.length
             ? `<div class="empty-state">
                 <div class="empty-state-icon">📦</div>
                 <div class="empty-state-title">No Unused Components</div>
@@ -761,6 +962,33 @@ export class UnusedComponentsPanel {
         }
     </div>
 
+    ${storiesOnly.length > 0 ? `
+    <div class="section-title">Stories Only (${storiesOnly.length})</div>
+    <div class="section-description">Components that only Storybook stories import. Deleting one offers to delete its stories too.</div>
+    <div class="components-list">
+        ${storiesOnlyHtml}
+    </div>
+    ` : ''}
+
+    ${unusedSymbols.length > 0 ? `
+    <div class="section-title">Unused Exports (${unusedSymbols.length})</div>
+    <div class="section-description">Components declared in files that are used elsewhere, but never imported or rendered themselves.</div>
+    <div class="components-list">
+        ${symbolsHtml}
+    </div>
+    ` : ''}
+
+    ${ignoredComponents.length > 0 ? `
+    <details class="ignored-section">
+        <summary class="section-title">Ignored (${ignoredComponents.length})</summary>
+        <div class="section-description">Unused components excluded by ${PRUNER_CONFIG_FILE} or a <code>// pruner-ignore</code> / <code>@keep</code> annotation.</div>
+        <div class="components-list">
+            ${ignoredHtml}
+        </div>
+    </details>
+    ` : ''}
+    `}
+
     <script>
         const vscode = acquireVsCodeApi();
 
@@ -771,10 +999,19 @@ export class UnusedComponentsPanel {
             });
         }
 
-        function openFile(componentPath) {
+        function openFile(componentPath, line) {
             vscode.postMessage({
                 type: 'openFile',
-                componentPath: componentPath
+                componentPath: componentPath,
+                line: line
+            });
+        }
+
+        function removeSymbol(componentPath, symbolName) {
+            vscode.postMessage({
+                type: 'removeSymbol',
+                componentPath: componentPath,
+                symbolName: symbolName
             });
         }
 
@@ -791,6 +1028,36 @@ export class UnusedComponentsPanel {
             });
         }
 
+        function exportReport() {
+            vscode.postMessage({
+                type: 'exportReport'
+            });
+        }
+
+        function filterFolder(folderPath) {
+            vscode.postMessage({
+                type: 'filterFolder',
+                folderPath: folderPath
+            });
+        }
+
+        function switchView(view) {
+            vscode.postMessage({
+                type: 'switchView',
+                view: view
+            });
+        }
+
+        function scanFolder() {
+            const select = document.getElementById('folderFilter');
+            if (select && select.value) {
+                vscode.postMessage({
+                    type: 'scanFolder',
+                    folderPath: select.value
+                });
+            }
+        }
+
         function selectAllSafe() {
             const checkboxes = document.querySelectorAll('.component-checkbox');
             const allChecked = Array.from(checkboxes).every(cb => cb.checked);
@@ -800,15 +1067,7 @@ export class UnusedComponentsPanel {
             updateSelectedCount();
         }
 
-        function formatFileSize(bytes) {
-            if (bytes < 1024) {
-                return bytes + ' B';
-            } else if (bytes < 1024 * 1024) {
-                return (bytes / 1024).toFixed(2) + ' KB';
-            } else {
-                return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
-            }
-        }
+        ${formatFileSize.toString()}
 
         function updateSelectedCount() {
             const checkboxes = document.querySelectorAll('.component-checkbox:checked');
@@ -833,9 +1092,13 @@ export class UnusedComponentsPanel {
             if (deleteBtn) {
                 deleteBtn.disabled = count === 0;
             }
+            const pruneBtn = document.getElementById('pruneSelectedBtn');
+            if (pruneBtn) {
+                pruneBtn.disabled = count === 0;
+            }
         }
 
-        function deleteSelected() {
+        function getSelectedPaths() {
             const checkboxes = document.querySelectorAll('.component-checkbox:checked');
             const selectedPaths = [];
 
@@ -846,6 +1109,11 @@ export class UnusedComponentsPanel {
                 }
             });
 
+            return selectedPaths;
+        }
+
+        function deleteSelected() {
+            const selectedPaths = getSelectedPaths();
             if (selectedPaths.length === 0) {
                 return;
             }
@@ -856,6 +1124,18 @@ export class UnusedComponentsPanel {
             });
         }
 
+        function pruneSelected() {
+            const selectedPaths = getSelectedPaths();
+            if (selectedPaths.length === 0) {
+                return;
+            }
+
+            vscode.postMessage({
+                type: 'pruneSelected',
+                componentPaths: selectedPaths
+            });
+        }
+
         // Initialize selected count on load
         updateSelectedCount();
     </script>
@@ -875,10 +1155,7 @@ export class UnusedComponentsPanel {
             ? '<span class="safety-badge unsafe">Unsafe</span>'
             : '<span class="safety-badge unknown">Unknown</span>';
 
-        const relativePath = path.relative(
-            vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
-            component.filePath
-        );
+        const relativePath = this.getDisplayPath(component.filePath);
 
         const lastModified = component.lastModified
             ? new Date(component.lastModified).toLocaleDateString()
@@ -893,6 +1170,26 @@ export class UnusedComponentsPanel {
             </div>`
             : '';
 
+        const usageBadge = component.usage === 'tests-only'
+            ? '<span class="safety-badge tests-only">Tests Only</span>'
+            : '';
+
+        const testFiles = component.testFiles || [];
+        const testsHtml = testFiles.length > 0
+            ? `<div class="meta-item">
+                    <span class="meta-label">Tests:</span>
+                    <span>${this.escapeHtml(testFiles.map(f => path.basename(f)).join(', '))}</span>
+                </div>`
+            : '';
+
+        const storyFiles = component.storyFiles || [];
+        const storiesHtml = storyFiles.length > 0
+            ? `<div class="meta-item">
+                    <span class="meta-label">Stories:</span>
+                    <span>${this.escapeHtml((component.storyTitles?.length ? component.storyTitles : storyFiles.map(f => path.basename(f))).join(', '))}</span>
+                </div>`
+            : '';
+
         const checkboxHtml = isSafe === true
             ? `<div class="checkbox-container">
                 <input type="checkbox"
@@ -912,19 +1209,21 @@ export class UnusedComponentsPanel {
             <div class="component-header">
                 <div>
                     <div class="component-name">${this.escapeHtml(component.componentName)}</div>
-                    <div class="component-path">${this.escapeHtml(relativePath)}</div>
+                    <div class="component-path">${this.getFolderLabelHtml(component.filePath)}${this.escapeHtml(relativePath)}</div>
                 </div>
-                ${safetyBadge}
+                <div>${usageBadge}${safetyBadge}</div>
             </div>
             <div class="component-meta">
                 <div class="meta-item">
                     <span class="meta-label">Size:</span>
-                    <span>${this.formatFileSize(component.size)}</span>
+                    <span>${formatFileSize(component.size)}</span>
                 </div>
                 <div class="meta-item">
                     <span class="meta-label">Modified:</span>
                     <span>${lastModified}</span>
                 </div>
+                ${storiesHtml}
+                ${testsHtml}
             </div>
             ${checkboxHtml}
             ${warningsHtml}
@@ -943,6 +1242,195 @@ export class UnusedComponentsPanel {
         </div>`;
     }
 
+    /**
+     * Gets HTML for an orphaned island of components
+     */
+    private getIslandHtml(island: string[], index: number): string {
+        const islandSize = island.reduce((sum, filePath) => {
+            const component = this._unusedComponents.find(c => c.filePath === filePath);
+            return sum + (component?.size || 0);
+        }, 0);
+
+        const membersHtml = island
+            .map(filePath => `<li onclick="openFile('${this.escapeJs(filePath)}')">${this.escapeHtml(this.getDisplayPath(filePath))}</li>`)
+            .join('');
+
+        return `
+        <div class="component-card unsafe">
+            <div class="component-header">
+                <div class="component-name">${this.getFolderLabelHtml(island[0])}Island ${index + 1}</div>
+                <span class="safety-badge unknown">${island.length} components</span>
+            </div>
+            <ul class="island-members">
+                ${membersHtml}
+            </ul>
+            <div class="component-meta">
+                <div class="meta-item">
+                    <span class="meta-label">Size:</span>
+                    <span>${formatFileSize(islandSize)}</span>
+                </div>
+            </div>
+        </div>`;
+    }
+
+    /**
+     * Gets HTML for a single unused component declaration
+     */
+    private getSymbolHtml(info: UnusedSymbolInfo): string {
+        const { symbol } = info;
+        const relativePath = this.getDisplayPath(info.filePath);
+        const exportLabel = symbol.isExported
+            ? `Exported as ${symbol.exportNames.join(', ')}`
+            : 'Not exported';
+
+        return `
+        <div class="component-card symbol">
+            <div class="component-header">
+                <div>
+                    <div class="component-name">${this.escapeHtml(symbol.name)}</div>
+                    <div class="component-path">${this.getFolderLabelHtml(info.filePath)}${this.escapeHtml(relativePath)}:${symbol.line + 1}</div>
+                </div>
+                <span class="safety-badge unknown">${symbol.isExported ? 'Export' : 'Local'}</span>
+            </div>
+            <div class="component-meta">
+                <div class="meta-item">
+                    <span>${this.escapeHtml(exportLabel)}</span>
+                </div>
+            </div>
+            <div class="component-actions">
+                <button class="btn btn-secondary" onclick="openFile('${this.escapeJs(info.filePath)}', ${symbol.line})">
+                    Go to Declaration
+                </button>
+                <button class="btn btn-danger" onclick="removeSymbol('${this.escapeJs(info.filePath)}', '${this.escapeJs(symbol.name)}')">
+                    Remove Declaration
+                </button>
+            </div>
+        </div>`;
+    }
+
+    /**
+     * Gets HTML for an unused component excluded from the results
+     */
+    private getIgnoredHtml(component: ComponentInfo): string {
+        const relativePath = this.getDisplayPath(component.filePath);
+        const ignored = component.ignored!;
+        const source = ignored.source === 'ignore'
+            ? `Matches an ignore pattern in ${PRUNER_CONFIG_FILE}`
+            : ignored.source === 'keep'
+            ? `Kept by ${PRUNER_CONFIG_FILE}${ignored.expires ? ` until ${ignored.expires}` : ''}`
+            : 'Annotated in source';
+
+        return `
+        <div class="component-card ignored">
+            <div class="component-header">
+                <div>
+                    <div class="component-name">${this.escapeHtml(component.componentName)}</div>
+                    <div class="component-path">${this.getFolderLabelHtml(component.filePath)}${this.escapeHtml(relativePath)}</div>
+                </div>
+                <span class="safety-badge unknown">Ignored</span>
+            </div>
+            <div class="component-meta">
+                <div class="meta-item">
+                    <span>${this.escapeHtml(source)}</span>
+                </div>
+                ${ignored.reason ? `
+                <div class="meta-item">
+                    <span class="meta-label">Reason:</span>
+                    <span>${this.escapeHtml(ignored.reason)}</span>
+                </div>
+                ` : ''}
+            </div>
+            <div class="component-actions">
+                <button class="btn btn-secondary" onclick="openFile('${this.escapeJs(component.filePath)}')">
+                    Open File
+                </button>
+            </div>
+        </div>`;
+    }
+
+    /**
+     * Gets the dependency graph view for the files in the selected folder
+     */
+    private getGraphHtml(
+        unusedComponents: UnusedComponentInfo[],
+        ignoredComponents: ComponentInfo[],
+        islands: string[][]
+    ): string {
+        const data = buildGraphData(this._dependencyGraph, {
+            unusedComponents,
+            ignoredComponents,
+            islands,
+            include: filePath => !this._folderFilter || this.getFolder(filePath)?.uri.fsPath === this._folderFilter,
+            getDisplayPath: filePath => this.getDisplayPath(filePath)
+        });
+
+        if (data.nodes.length === 0) {
+            return `<div class="empty-state">
+                <div class="empty-state-icon">🕸️</div>
+                <div class="empty-state-title">No Imports to Show</div>
+                <div>Run a scan to build the dependency graph.</div>
+              </div>`;
+        }
+
+        return getGraphViewHtml(data);
+    }
+
+    /**
+     * Keeps the items in the folder selected in the filter
+     */
+    private inSelectedFolder<T>(items: T[], getPath: (item: T) => string): T[] {
+        if (!this._folderFilter) {
+            return items;
+        }
+        return items.filter(item => this.getFolder(getPath(item))?.uri.fsPath === this._folderFilter);
+    }
+
+    /**
+     * Gets the workspace folder containing a file
+     */
+    private getFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    }
+
+    /**
+     * Gets a file path relative to its workspace folder
+     */
+    private getDisplayPath(filePath: string): string {
+        const folder = this.getFolder(filePath);
+        return folder ? path.relative(folder.uri.fsPath, filePath) : filePath;
+    }
+
+    /**
+     * Gets a badge naming a file's workspace folder, shown in multi-root workspaces
+     */
+    private getFolderLabelHtml(filePath: string): string {
+        if ((vscode.workspace.workspaceFolders || []).length < 2) {
+            return '';
+        }
+        const folder = this.getFolder(filePath);
+        return folder ? `<span class="folder-label">${this.escapeHtml(folder.name)}</span>` : '';
+    }
+
+    /**
+     * Gets the folder filter and per-folder scan button
+     */
+    private getFolderFilterHtml(folders: readonly vscode.WorkspaceFolder[]): string {
+        const options = folders.map(folder => {
+            const count = this._unusedComponents.filter(
+                c => this.getFolder(c.filePath)?.uri.fsPath === folder.uri.fsPath
+            ).length;
+            const selected = folder.uri.fsPath === this._folderFilter ? ' selected' : '';
+            return `<option value="${this.escapeHtml(folder.uri.fsPath)}"${selected}>${this.escapeHtml(folder.name)} (${count})</option>`;
+        }).join('');
+
+        return `
+            <select id="folderFilter" class="folder-filter" onchange="filterFolder(this.value)">
+                <option value="">All folders (${this._unusedComponents.length})</option>
+                ${options}
+            </select>
+            <button class="btn btn-secondary" onclick="scanFolder()" ${this._folderFilter ? '' : 'disabled title="Select a folder first"'}>🔍 Scan Folder</button>`;
+    }
+
     /**
      * Escapes HTML to prevent XSS
      */
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { SKIPPED_DIRECTORIES } from './host';
+
+/**
+ * Files whose changes can affect the dependency graph
+ */
+const SOURCE_FILE_GLOB = '**/*.{js,jsx,ts,tsx}';
+
+/**
+ * Paths the source watcher reports itself
+ */
+const SOURCE_FILE_PATTERN = /\.(js|jsx|ts|tsx)$/;
+
+/**
+ * Any path, so folder creates, deletes and renames are seen too: they
+ * arrive as one event for the folder, never for the files inside
+ */
+const ANY_PATH_GLOB = '**';
+
+/**
+ * Files that change module resolution, workspace packages or ignore
+ * rules; editing one requires a full scan
+ */
+const CONFIG_FILE_GLOB = '**/{tsconfig*.json,jsconfig*.json,package.json,pnpm-workspace.yaml,.componentprunerrc}';
+
+/**
+ * Delay before collected events are reported, so a branch switch or
+ * "save all" is handled as one batch
+ */
+const DEBOUNCE_MS = 300;
+
+/**
+ * File changes collected since the last call to takeChanges.
+ * `deletedFolders` are deleted paths that may be folders, whose indexed
+ * files are gone as well.
+ */
+export interface PendingChanges {
+    changed: string[];
+    deleted: string[];
+    deletedFolders: string[];
+    requiresFullScan: boolean;
+}
+
+/**
+ * ProjectWatcher class collecting file creates, changes and deletes
+ * between refreshes
+ */
+export class ProjectWatcher implements vscode.Disposable {
+    private changed: Set<string> = new Set();
+    private deleted: Set<string> = new Set();
+    private deletedFolders: Set<string> = new Set();
+    private requiresFullScan = false;
+    private disposables: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    private onDidChange: () => void;
+
+    constructor(onDidChange: () => void) {
+        this.onDidChange = onDidChange;
+
+        const sourceWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILE_GLOB);
+        sourceWatcher.onDidCreate(uri => this.recordChange(uri), null, this.disposables);
+        sourceWatcher.onDidChange(uri => this.recordChange(uri), null, this.disposables);
+        sourceWatcher.onDidDelete(uri => this.recordDelete(uri), null, this.disposables);
+
+        const configWatcher = vscode.workspace.createFileSystemWatcher(CONFIG_FILE_GLOB);
+        const invalidate = (uri: vscode.Uri): void => {
+            if (!this.isIgnored(uri)) {
+                this.requiresFullScan = true;
+                this.schedule();
+            }
+        };
+        configWatcher.onDidCreate(invalidate, null, this.disposables);
+        configWatcher.onDidChange(invalidate, null, this.disposables);
+        configWatcher.onDidDelete(invalidate, null, this.disposables);
+
+        // Change events of folders carry nothing, only creates and deletes matter
+        const folderWatcher = vscode.workspace.createFileSystemWatcher(ANY_PATH_GLOB, false, true, false);
+        folderWatcher.onDidCreate(uri => this.recordFolderCreate(uri), null, this.disposables);
+        folderWatcher.onDidDelete(uri => this.recordFolderDelete(uri), null, this.disposables);
+
+        this.disposables.push(sourceWatcher, configWatcher, folderWatcher);
+    }
+
+    /**
+     * Checks whether any changes were collected
+     */
+    hasPendingChanges(): boolean {
+        return this.changed.size > 0 || this.deleted.size > 0 || this.deletedFolders.size > 0 || this.requiresFullScan;
+    }
+
+    /**
+     * Returns the collected changes and starts collecting anew
+     */
+    takeChanges(): PendingChanges {
+        const changes: PendingChanges = {
+            changed: [...this.changed],
+            deleted: [...this.deleted],
+            deletedFolders: [...this.deletedFolders],
+            requiresFullScan: this.requiresFullScan
+        };
+
+        this.changed.clear();
+        this.deleted.clear();
+        this.deletedFolders.clear();
+        this.requiresFullScan = false;
+
+        return changes;
+    }
+
+    /**
+     * Records a created or modified file
+     */
+    private recordChange(uri: vscode.Uri): void {
+        if (this.isIgnored(uri)) {
+            return;
+        }
+        this.deleted.delete(uri.fsPath);
+        this.changed.add(uri.fsPath);
+        this.schedule();
+    }
+
+    /**
+     * Records a deleted file
+     */
+    private recordDelete(uri: vscode.Uri): void {
+        if (this.isIgnored(uri)) {
+            return;
+        }
+        this.changed.delete(uri.fsPath);
+        this.deleted.add(uri.fsPath);
+        this.schedule();
+    }
+
+    /**
+     * Records a created path: a created or renamed folder brings files the
+     * index has never seen, so the next refresh runs a full scan
+     */
+    private async recordFolderCreate(uri: vscode.Uri): Promise<void> {
+        if (this.isIgnored(uri) || SOURCE_FILE_PATTERN.test(uri.fsPath)) {
+            return;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.Directory) {
+                this.requiresFullScan = true;
+                this.schedule();
+            }
+        } catch {
+            // Already gone again
+        }
+    }
+
+    /**
+     * Records a deleted path that may be a folder; deleted source files
+     * are recorded by the source watcher
+     */
+    private recordFolderDelete(uri: vscode.Uri): void {
+        if (this.isIgnored(uri) || SOURCE_FILE_PATTERN.test(uri.fsPath)) {
+            return;
+        }
+        this.deletedFolders.add(uri.fsPath);
+        this.schedule();
+    }
+
+    /**
+     * Skips dependencies, VCS internals and quarantined deletions
+     */
+    private isIgnored(uri: vscode.Uri): boolean {
+        return uri.fsPath.split(/[\\/]/).some(part => SKIPPED_DIRECTORIES.includes(part));
+    }
+
+    /**
+     * Reports collected changes once events stop arriving
+     */
+    private schedule(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.onDidChange();
+        }, DEBOUNCE_MS);
+    }
+
+    dispose(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,186 @@
+import * as path from 'path';
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+import {
+    ComponentTask,
+    ComponentTaskResult,
+    ImportsTask,
+    ImportsTaskResult,
+    ParseRequest,
+    ParseResponse,
+    ParseTask
+} from './parseWorker';
+
+/**
+ * Default cap on the number of parser worker threads
+ */
+export const DEFAULT_MAX_WORKERS = 4;
+
+/**
+ * Below this many files starting workers (each loads the TypeScript
+ * compiler) costs more than parsing on the calling thread
+ */
+export const MIN_FILES_FOR_WORKERS = 200;
+
+/**
+ * A queued task and the promise waiting for it
+ */
+interface PendingTask {
+    request: ParseRequest;
+    resolve: (result: ComponentTaskResult | ImportsTaskResult) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Gets the number of workers to start: one less than the CPU count, so
+ * the calling thread keeps a core, capped at `maxWorkers`
+ */
+export function getWorkerCount(maxWorkers: number = DEFAULT_MAX_WORKERS): number {
+    if (maxWorkers <= 0) {
+        return 0;
+    }
+    return Math.min(maxWorkers, Math.max(1, os.cpus().length - 1));
+}
+
+/**
+ * ParserPool class running file reading and parsing in worker threads,
+ * so large scans do not block the calling thread. Workers start on the
+ * first task and stay alive until dispose.
+ */
+export class ParserPool {
+    private size: number;
+    private script: string;
+    private workers: Worker[] = [];
+    private idle: Worker[] = [];
+    private running: Map<Worker, PendingTask> = new Map();
+    private queue: PendingTask[] = [];
+    private nextId = 0;
+    private started = false;
+    private disposed = false;
+
+    constructor(size: number, script: string = path.join(__dirname, 'parseWorker.js')) {
+        this.size = Math.max(1, size);
+        this.script = script;
+    }
+
+    /**
+     * Runs a task on the next free worker. Rejects when the file cannot
+     * be read or the worker fails, so callers can fall back to parsing
+     * on the calling thread.
+     */
+    run(task: ComponentTask): Promise<ComponentTaskResult>;
+    run(task: ImportsTask): Promise<ImportsTaskResult>;
+    run(task: ParseTask): Promise<ComponentTaskResult | ImportsTaskResult> {
+        if (this.disposed) {
+            return Promise.reject(new Error('Parser pool was disposed'));
+        }
+
+        this.start();
+        if (this.workers.length === 0) {
+            return Promise.reject(new Error('No parser workers available'));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.queue.push({ request: { id: this.nextId++, task }, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Stops all workers and rejects tasks still waiting
+     */
+    async dispose(): Promise<void> {
+        this.disposed = true;
+
+        const error = new Error('Parser pool was disposed');
+        for (const pending of [...this.queue, ...this.running.values()]) {
+            pending.reject(error);
+        }
+        this.queue = [];
+        this.running.clear();
+
+        const workers = this.workers;
+        this.workers = [];
+        this.idle = [];
+        await Promise.all(workers.map(worker => worker.terminate()));
+    }
+
+    /**
+     * Starts the workers on first use
+     */
+    private start(): void {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+
+        for (let i = 0; i < this.size; i++) {
+            try {
+                const worker = new Worker(this.script);
+                worker.on('message', (response: ParseResponse) => this.onMessage(worker, response));
+                worker.on('error', error => this.onFailure(worker, error));
+                worker.on('exit', code => this.onFailure(worker, new Error(`Parser worker exited with code ${code}`)));
+                this.workers.push(worker);
+                this.idle.push(worker);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`Failed to start parser worker: ${errorMessage}`);
+            }
+        }
+    }
+
+    /**
+     * Hands queued tasks to idle workers
+     */
+    private dispatch(): void {
+        while (this.idle.length > 0 && this.queue.length > 0) {
+            const worker = this.idle.pop()!;
+            const pending = this.queue.shift()!;
+            this.running.set(worker, pending);
+            worker.postMessage(pending.request);
+        }
+    }
+
+    /**
+     * Settles the worker's task and gives it the next one
+     */
+    private onMessage(worker: Worker, response: ParseResponse): void {
+        const pending = this.running.get(worker);
+        this.running.delete(worker);
+        this.idle.push(worker);
+
+        if (pending) {
+            if (response.result) {
+                pending.resolve(response.result);
+            } else {
+                pending.reject(new Error(response.error || 'Unknown error'));
+            }
+        }
+
+        this.dispatch();
+    }
+
+    /**
+     * Drops a crashed worker. Its task fails, and queued tasks fail too
+     * once no workers are left.
+     */
+    private onFailure(worker: Worker, error: Error): void {
+        if (this.disposed || !this.workers.includes(worker)) {
+            return;
+        }
+
+        this.workers = this.workers.filter(w => w !== worker);
+        this.idle = this.idle.filter(w => w !== worker);
+
+        const pending = this.running.get(worker);
+        this.running.delete(worker);
+        pending?.reject(error);
+
+        if (this.workers.length === 0) {
+            for (const queued of this.queue) {
+                queued.reject(error);
+            }
+            this.queue = [];
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { ProjectHost, walkFiles } from './host';
+
+/**
+ * WorkspaceHost class backing the scanner, analyzer and safety checker
+ * with the VS Code workspace API. Covers the given folders, or every
+ * workspace folder when none are given.
+ */
+export class WorkspaceHost implements ProjectHost {
+    private folders: string[] | undefined;
+
+    constructor(folders?: string[]) {
+        this.folders = folders;
+    }
+
+    getRootFolders(): string[] {
+        return this.folders || (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+    }
+
+    streamFiles(root: string, include: string, exclude?: string): AsyncIterable<string[]> {
+        // workspace.findFiles has no paging, so walk the folder one directory at a time
+        return walkFiles(root, include, exclude, async (dir) => {
+            const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dir));
+            return entries.map(([name, type]) => ({
+                name,
+                isDirectory: (type & vscode.FileType.Directory) !== 0 && (type & vscode.FileType.SymbolicLink) === 0,
+                isFile: (type & vscode.FileType.File) !== 0
+            }));
+        });
+    }
+
+    showWarning(message: string): void {
+        vscode.window.showWarningMessage(message);
+    }
+
+    showError(message: string): void {
+        vscode.window.showErrorMessage(message);
+    }
+}